@@ -0,0 +1,38 @@
+import { bench, describe } from 'vitest';
+import { compileQuery } from './compile.js';
+import { rankModels } from './select.js';
+import type { Config, ModelConfig } from './types.js';
+
+// A registry the size of a large deployment: 500 models across 10 providers.
+const models: Record<string, ModelConfig> = {};
+for (let i = 0; i < 500; i++) {
+  models[`model-${i}`] = {
+    provider: `provider-${i % 10}`,
+    enabled: true,
+    attributes: {
+      cost: i % 10,
+      speed: (i * 7) % 10,
+      quality: (i * 3) % 10,
+      context_window: 8000 * ((i % 16) + 1),
+      functions: i % 3 === 0,
+    },
+  };
+}
+const config: Config = { aliases: { cheap: 'cost <= 3', fast: 'speed >= 7' }, models };
+
+for (const query of ['fast, cheap, functions', '+provider = provider-3, max(quality)']) {
+  describe(query, () => {
+    bench('rankModels', () => {
+      rankModels(query, config);
+    });
+
+    bench('compileQuery(...).rank()', () => {
+      compileQuery(query, config).rank();
+    });
+
+    // Parsing and indexing only: a fresh config object misses the cache.
+    bench('compileQuery(...).rank(), uncached', () => {
+      compileQuery(query, { ...config }).rank();
+    });
+  });
+}
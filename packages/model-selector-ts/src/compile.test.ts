@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { compileQuery } from './compile.js';
+import type { MatchOptions } from './query/matcher.js';
+import { ModelRegistry } from './registry.js';
+import { rankModels } from './select.js';
+import type { Config, ModelConfig } from './types.js';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const modelsDoc = JSON.parse(
+  fs.readFileSync(path.resolve(here, '../../../shared/corpus/models.json'), 'utf-8')
+);
+
+const models: Record<string, ModelConfig> = {};
+for (const [id, entry] of Object.entries(modelsDoc.models as Record<string, any>)) {
+  models[id] = {
+    provider: entry.provider,
+    hf_repo_id: entry.hf_repo_id,
+    attributes: entry.attributes,
+    enabled: true,
+  };
+}
+
+const config: Config = {
+  aliases: { cheap: 'cost <= 3', fast: 'speed >= 7' },
+  profiles: { code: { query: '+context_window >= 100k, max(quality)', count: 2 } },
+  models,
+};
+
+const QUERIES = [
+  'fast, cheap',
+  '+provider = meta, max(quality)',
+  '+architecture ~ llama*, min(cost)',
+  '+context_window >= 100000, cheap',
+  '+license != proprietary, !fast',
+  '+local, quality >= 7 | cheap',
+  '+missing_attribute, fast',
+  '+provider = nobody',
+];
+
+const ids = (selections: Array<{ modelId: string; score: number }>) =>
+  selections.map((s) => [s.modelId, s.score]);
+
+describe('compileQuery', () => {
+  it('ranks exactly like rankModels', () => {
+    const variants: MatchOptions[] = [{}, { graded: true }, { unknown: 'pass' }, { unknown: 'neutral' }];
+    for (const query of QUERIES) {
+      for (const options of variants) {
+        const label = `${query} ${JSON.stringify(options)}`;
+        expect(ids(compileQuery(query, config).rank(options)), label).toEqual(
+          ids(rankModels(query, config, options))
+        );
+      }
+    }
+  });
+
+  it('applies match defaults like rankModels', () => {
+    const withDefaults: Config = {
+      ...config,
+      defaults: { unknown: 'fail', attributes: {}, providers: { meta: { local: true } } },
+    };
+    for (const options of [{}, { defaults: { license: 'proprietary' } }]) {
+      expect(ids(compileQuery('+local, +license = llama3.1', withDefaults).rank(options))).toEqual(
+        ids(rankModels('+local, +license = llama3.1', withDefaults, options))
+      );
+    }
+  });
+
+  it('caches per query and config object', () => {
+    const compiled = compileQuery('fast, cheap', config);
+    expect(compileQuery('fast, cheap', config)).toBe(compiled);
+    expect(compileQuery('fast, cheap', { ...config })).not.toBe(compiled);
+    expect(compiled.rank()).toEqual(compiled.rank());
+  });
+
+  it('selects with counts, requireMatch and profiles', () => {
+    const compiled = compileQuery('fast, cheap', config);
+    expect(compiled.select()?.modelId).toBe(rankModels('fast, cheap', config)[0]?.modelId);
+    expect(compiled.selectMany({ count: 2 })).toHaveLength(2);
+    expect(compileQuery('+provider = nobody', config).select()).toBeNull();
+
+    const profile = compileQuery('@code', config);
+    expect(profile.selectMany().map((s) => s.modelId)).toEqual(['deepseek-v3', 'kimi-k2']);
+    expect(profile.rank().map((s) => s.modelId)).toContain('phi-3.5-mini');
+  });
+
+  it('sees registry edits', () => {
+    const registry = ModelRegistry.fromModels([{ id: 'a', attributes: { cost: 5 } }]);
+    expect(registry.compile('cost <= 3').select({ requireMatch: true })).toBeNull();
+    registry.add({ id: 'b', attributes: { cost: 1 } });
+    expect(registry.compile('cost <= 3').select({ requireMatch: true })?.modelId).toBe('b');
+  });
+
+  it('answers repeated calls from the cache faster than rankModels', () => {
+    const query = '+context_window >= 32000, fast, cheap, max(quality)';
+    const time = (fn: () => unknown): number => {
+      const start = performance.now();
+      for (let i = 0; i < 200; i++) fn();
+      return performance.now() - start;
+    };
+    compileQuery(query, config).rank();
+    const uncompiled = time(() => rankModels(query, config));
+    const cached = time(() => compileQuery(query, config).rank());
+    // Well under the real gap, so a slow or busy machine doesn't fail it.
+    expect(cached * 5).toBeLessThan(uncompiled);
+  });
+});
@@ -0,0 +1,197 @@
+import { MatchOptions } from './query/matcher.js';
+import { parseQuery } from './query/parser.js';
+import { Candidate, getCandidates, getProfile, rankCandidates, selectFrom } from './select.js';
+import {
+  Config,
+  ParsedQuery,
+  ScalarValue,
+  Selection,
+  SelectOptions,
+  UnknownPolicy,
+} from './types.js';
+
+// Compiled queries kept per config; past this many the least recently used goes.
+const MAX_QUERIES_PER_CONFIG = 256;
+
+/**
+ * A config's enabled models, indexed by the attributes they have and by their
+ * scalar values. Built once per config.
+ */
+interface ConfigIndex {
+  candidates: Candidate[];
+  /** Candidate positions by attribute present. */
+  byAttribute: Map<string, Set<number>>;
+  /** Candidate positions by attribute and scalar value. */
+  byValue: Map<string, Map<ScalarValue, Set<number>>>;
+}
+
+// Keyed by config object: a config that changes is a new object (loadConfig,
+// ConfigWatcher and ModelRegistry all work that way), so a stale entry is never
+// reused and is collected with its config.
+const indexes = new WeakMap<Config, ConfigIndex>();
+const compiled = new WeakMap<Config, Map<string, CompiledQuery>>();
+
+function addTo<K>(map: Map<K, Set<number>>, key: K, position: number): void {
+  const positions = map.get(key);
+  if (positions) positions.add(position);
+  else map.set(key, new Set([position]));
+}
+
+function indexConfig(config: Config): ConfigIndex {
+  const cached = indexes.get(config);
+  if (cached) return cached;
+
+  const candidates = getCandidates(config);
+  const byAttribute = new Map<string, Set<number>>();
+  const byValue = new Map<string, Map<ScalarValue, Set<number>>>();
+  candidates.forEach(({ attributes }, position) => {
+    for (const [attribute, value] of Object.entries(attributes)) {
+      addTo(byAttribute, attribute, position);
+      if (Array.isArray(value)) continue;
+      let values = byValue.get(attribute);
+      if (!values) byValue.set(attribute, (values = new Map()));
+      addTo(values, value, position);
+    }
+  });
+
+  const index = { candidates, byAttribute, byValue };
+  indexes.set(config, index);
+  return index;
+}
+
+/**
+ * Candidate positions, in config order, that can pass every hard constraint
+ * consisting of one plain condition; null when no such constraint narrows
+ * the search. `+attr = value` looks the value up; other operators only rule
+ * out models lacking the attribute, and only under the `fail` policy, since
+ * `pass` and `neutral` never fail a constraint on a missing attribute.
+ */
+function prune(index: ConfigIndex, parsed: ParsedQuery, unknown: UnknownPolicy): number[] | null {
+  let allowed: Set<number> | null = null;
+  for (const term of parsed.terms) {
+    if (!term.required || term.node.type !== 'condition') continue;
+    const { attribute, operator, value, numericValue, negated } = term.node.condition;
+    if (negated) continue;
+
+    const present = index.byAttribute.get(attribute) ?? new Set<number>();
+    let passing: Set<number>;
+    if (operator === '=' && !Array.isArray(value) && !Array.isArray(numericValue)) {
+      // `+variant = 7b` passes a string "7b" or a number 7e9.
+      const values = index.byValue.get(attribute);
+      passing = new Set(values?.get(value));
+      if (numericValue !== undefined) values?.get(numericValue)?.forEach((p) => passing.add(p));
+      if (unknown !== 'fail') {
+        index.candidates.forEach((_, position) => {
+          if (!present.has(position)) passing.add(position);
+        });
+      }
+    } else if (unknown === 'fail') {
+      passing = present;
+    } else {
+      continue;
+    }
+    const narrowed: Set<number> = allowed ?? passing;
+    allowed = new Set([...narrowed].filter((position) => passing.has(position)));
+  }
+  return allowed ? [...allowed].sort((a, b) => a - b) : null;
+}
+
+const cachedRank = (query: string, config: Config, options: MatchOptions = {}): Selection[] =>
+  compileQuery(query, config).rank(options);
+
+/**
+ * A query parsed once against one config; get one from `compileQuery`.
+ *
+ * Rankings are cached per `graded` / `unknown` option, so repeated calls cost
+ * a lookup. The returned `Selection` objects are shared between calls and
+ * must be treated as read-only.
+ */
+export class CompiledQuery {
+  /** The parsed query (for `@name`, the profile's query). */
+  readonly parsed: ParsedQuery;
+  private readonly rankings = new Map<string, Selection[]>();
+
+  constructor(
+    readonly query: string,
+    private readonly config: Config
+  ) {
+    const reference = query.trim();
+    const source = reference.startsWith('@')
+      ? getProfile(reference.slice(1), config).query
+      : query;
+    this.parsed = parseQuery(source, config.aliases);
+  }
+
+  /**
+   * Rank the enabled models; the same result as `rankModels`. An
+   * `options.defaults` map bypasses the index and the cache.
+   */
+  rank(options: MatchOptions = {}): Selection[] {
+    if (options.defaults) {
+      const candidates = getCandidates(this.config, options);
+      return rankCandidates(candidates, this.parsed, this.config, options);
+    }
+    const key = JSON.stringify([options.graded ?? false, options.unknown ?? null]);
+    let ranked = this.rankings.get(key);
+    if (!ranked) {
+      const index = indexConfig(this.config);
+      const unknown = options.unknown ?? this.config.defaults?.unknown ?? 'fail';
+      const positions = prune(index, this.parsed, unknown);
+      const candidates = positions
+        ? positions.map((position) => index.candidates[position]!)
+        : index.candidates;
+      ranked = rankCandidates(candidates, this.parsed, this.config, options);
+      this.rankings.set(key, ranked);
+    }
+    return ranked.slice();
+  }
+
+  /** The best matching model, or `null`; see `selectModel`. */
+  select(options: Omit<SelectOptions, 'configPath'> = {}): Selection | null {
+    return selectFrom(this.query, this.config, options, true, cachedRank)[0] ?? null;
+  }
+
+  /** The top models, best first; see `selectModels`. */
+  selectMany(options: Omit<SelectOptions, 'configPath'> = {}): Selection[] {
+    return selectFrom(this.query, this.config, options, false, cachedRank);
+  }
+}
+
+/**
+ * Compile a query against a config for repeated selection.
+ *
+ * The query is parsed once and its rankings are cached, so a repeated call
+ * costs a lookup; the first one costs about as much as `rankModels`. Compiled
+ * queries are cached per (query, config): the same config object returns the
+ * same `CompiledQuery`, and a reloaded or edited config (a new object) starts
+ * afresh. Treat a compiled config as immutable: a change made to it in place
+ * is not seen, and rankings go stale.
+ *
+ * @throws QueryParseError when the query does not parse
+ * @throws ConfigError when `@name` names no profile
+ *
+ * @example
+ * ```typescript
+ * const route = compileQuery('+functions, fast, cheap', config);
+ * app.post('/chat', () => route.select()?.modelId);
+ * ```
+ */
+export function compileQuery(query: string, config: Config): CompiledQuery {
+  let queries = compiled.get(config);
+  if (!queries) {
+    queries = new Map();
+    compiled.set(config, queries);
+  }
+  let entry = queries.get(query);
+  if (entry) {
+    // Move to the back: the front of the map is the least recently used.
+    queries.delete(query);
+  } else {
+    entry = new CompiledQuery(query, config);
+    if (queries.size >= MAX_QUERIES_PER_CONFIG) {
+      queries.delete(queries.keys().next().value!);
+    }
+  }
+  queries.set(query, entry);
+  return entry;
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { applyAttributeDefaults, checkAttributeValue, checkDeclaredAttributes } from './attributes.js';
+import { ConfigSchema } from '../types.js';
+import type { AttributeDeclarations, Config } from '../types.js';
+
+const declarations: AttributeDeclarations = {
+  cost: { type: 'number', range: [1, 10], description: 'Relative price' },
+  context_window: { type: 'number', unit: 'tokens' },
+  local: { type: 'boolean', default: false },
+};
+
+describe('checkAttributeValue', () => {
+  it('accepts a value of the declared type within range', () => {
+    expect(checkAttributeValue(3, declarations['cost']!)).toBeNull();
+    expect(checkAttributeValue(10, declarations['cost']!)).toBeNull();
+  });
+
+  it('rejects the wrong type', () => {
+    expect(checkAttributeValue('cheap', declarations['cost']!)).toBe('expected number, got string');
+  });
+
+  it('checks list values against a list declaration', () => {
+    expect(checkAttributeValue(['fp8'], { type: 'list' })).toBeNull();
+    expect(checkAttributeValue('fp8,chat', { type: 'list' })).toBe('expected list, got string');
+    expect(checkAttributeValue(['fp8'], { type: 'string' })).toBe('expected string, got list');
+  });
+
+  it('rejects a number outside the range', () => {
+    expect(checkAttributeValue(11, declarations['cost']!)).toBe(
+      '11 is outside the declared range 1-10'
+    );
+  });
+});
+
+describe('checkDeclaredAttributes', () => {
+  it('reports each violating attribute and ignores undeclared ones', () => {
+    expect(
+      checkDeclaredAttributes({ cost: 0, local: 'yes', vision: true }, declarations)
+    ).toEqual([
+      { attribute: 'cost', message: '0 is outside the declared range 1-10' },
+      { attribute: 'local', message: 'expected boolean, got string' },
+    ]);
+  });
+});
+
+describe('ConfigSchema with [attributes]', () => {
+  it('accepts conforming models', () => {
+    const result = ConfigSchema.safeParse({
+      attributes: declarations,
+      models: { a: { attributes: { cost: 3, local: true } } },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('reports violations at the model attribute path', () => {
+    const result = ConfigSchema.safeParse({
+      attributes: declarations,
+      models: { a: { attributes: { cost: 'cheap' } } },
+    });
+    expect(result.success).toBe(false);
+    expect(result.error!.issues[0]!.path).toEqual(['models', 'a', 'attributes', 'cost']);
+  });
+
+  it('rejects inconsistent declarations', () => {
+    const bad = (declaration: unknown) =>
+      ConfigSchema.safeParse({ attributes: { x: declaration }, models: {} }).success;
+    expect(bad({ type: 'string', range: [1, 10] })).toBe(false);
+    expect(bad({ type: 'number', range: [10, 1] })).toBe(false);
+    expect(bad({ type: 'number', range: [1, 10], default: 20 })).toBe(false);
+    expect(bad({ type: 'colour' })).toBe(false);
+  });
+});
+
+describe('applyAttributeDefaults', () => {
+  it('fills declared defaults into models that omit them', () => {
+    const config: Config = {
+      aliases: {},
+      attributes: declarations,
+      models: {
+        a: { enabled: true, attributes: { cost: 3 } },
+        b: { enabled: true, attributes: { local: true } },
+      },
+    };
+    const result = applyAttributeDefaults(config);
+    expect(result.models['a']!.attributes).toEqual({ cost: 3, local: false });
+    expect(result.models['b']!.attributes).toEqual({ local: true });
+    expect(config.models['a']!.attributes).toEqual({ cost: 3 });
+  });
+
+  it('returns the config unchanged without defaults', () => {
+    const config: Config = { aliases: {}, models: {} };
+    expect(applyAttributeDefaults(config)).toBe(config);
+  });
+});
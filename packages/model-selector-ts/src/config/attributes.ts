@@ -0,0 +1,98 @@
+import type {
+  AttributeDeclaration,
+  AttributeDeclarations,
+  AttributeValue,
+  Config,
+  ModelAttributes,
+} from '../types.js';
+import { parseHumanNumber } from '../units.js';
+
+/**
+ * The declared type a value has: `list` for arrays, else its `typeof`.
+ */
+export function attributeType(value: AttributeValue): AttributeDeclaration['type'] {
+  return Array.isArray(value) ? 'list' : (typeof value as 'boolean' | 'number' | 'string');
+}
+
+export interface AttributeIssue {
+  attribute: string;
+  message: string;
+}
+
+/**
+ * Check a value against its declaration: the declared type, and the declared
+ * range for numbers. Returns a description of the problem, or null.
+ */
+export function checkAttributeValue(
+  value: AttributeValue,
+  declaration: Pick<AttributeDeclaration, 'type' | 'range'>
+): string | null {
+  const type = attributeType(value);
+  if (type !== declaration.type) {
+    return `expected ${declaration.type}, got ${type}`;
+  }
+  if (declaration.range && typeof value === 'number') {
+    const [min, max] = declaration.range;
+    if (value < min || value > max) {
+      return `${value} is outside the declared range ${min}-${max}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the unit-suffixed strings (`"128k"`, `"70B"`) of attributes declared as
+ * `number` as the numbers they stand for. Other values, including undeclared
+ * strings such as `variant = "7b"`, are left as written.
+ */
+export function parseDeclaredNumbers(
+  attributes: ModelAttributes,
+  declarations: AttributeDeclarations
+): ModelAttributes {
+  let parsed = attributes;
+  for (const [attribute, value] of Object.entries(attributes)) {
+    if (typeof value !== 'string' || declarations[attribute]?.type !== 'number') continue;
+    const number = parseHumanNumber(value);
+    if (number !== null) parsed = { ...parsed, [attribute]: number };
+  }
+  return parsed;
+}
+
+/**
+ * Check a model's attributes against the declared ones. Undeclared attributes
+ * are allowed; `[attributes]` only constrains what it names.
+ */
+export function checkDeclaredAttributes(
+  attributes: ModelAttributes,
+  declarations: AttributeDeclarations
+): AttributeIssue[] {
+  const issues: AttributeIssue[] = [];
+  for (const [attribute, value] of Object.entries(attributes)) {
+    const declaration = declarations[attribute];
+    if (!declaration) continue;
+    const message = checkAttributeValue(value, declaration);
+    if (message) issues.push({ attribute, message });
+  }
+  return issues;
+}
+
+/**
+ * Fill in declared defaults for models that omit an attribute. `loadConfig`
+ * does this on load; call it for a config built in code before ranking.
+ */
+export function applyAttributeDefaults(config: Config): Config {
+  const declarations = Object.entries(config.attributes ?? {}).filter(
+    ([, declaration]) => declaration.default !== undefined
+  );
+  if (declarations.length === 0) return config;
+
+  const models: Config['models'] = {};
+  for (const [name, model] of Object.entries(config.models)) {
+    const attributes = { ...model.attributes };
+    for (const [attribute, declaration] of declarations) {
+      if (!(attribute in attributes)) attributes[attribute] = declaration.default!;
+    }
+    models[name] = { ...model, attributes };
+  }
+  return { ...config, models };
+}
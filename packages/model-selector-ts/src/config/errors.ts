@@ -15,6 +15,8 @@ export enum ConfigErrorCode {
   DUPLICATE_MODEL = 'DUPLICATE_MODEL',
   MODEL_NOT_FOUND = 'MODEL_NOT_FOUND',
   ALIAS_NOT_FOUND = 'ALIAS_NOT_FOUND',
+  INVALID_PROFILE = 'INVALID_PROFILE',
+  PROFILE_NOT_FOUND = 'PROFILE_NOT_FOUND',
 
   // Provider
   UNKNOWN_PROVIDER = 'UNKNOWN_PROVIDER',
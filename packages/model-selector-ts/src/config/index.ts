@@ -1,5 +1,25 @@
 // Config loader exports
-export { loadConfig, getEnabledModels, resolveEnvVars } from './loader.js';
+export {
+  loadConfig,
+  loadConfigWithSources,
+  getEnabledModels,
+  getConfigSearchPaths,
+  getConfigDirectory,
+  getConfigLayerPath,
+  resolveEnvVars,
+} from './loader.js';
+export type { ConfigLayerName, ConfigSources, ConfigWithSources } from './loader.js';
+export {
+  applyAttributeDefaults,
+  checkAttributeValue,
+  checkDeclaredAttributes,
+  parseDeclaredNumbers,
+} from './attributes.js';
+export type { AttributeIssue } from './attributes.js';
+
+// Config watcher exports
+export { watchConfig, ConfigWatcher, diffConfigs } from './watcher.js';
+export type { ConfigChange, ConfigChangeEvent, WatchConfigOptions } from './watcher.js';
 
 // Config writer exports
 export {
@@ -11,13 +31,15 @@ export {
   setModelEnabled,
   setAlias,
   removeAlias,
+  setProfile,
+  removeProfile,
   getDefaultConfigPath,
   ensureConfigDirectory,
   validateModelConfig,
   validateConfig,
 } from './writer.js';
 
-export type { ConfigWriterOptions, WriteResult } from './writer.js';
+export type { ConfigWriterOptions, UpdateModelOptions, WriteResult } from './writer.js';
 
 // Error exports
 export { ConfigError, ConfigErrorCode } from './errors.js';
@@ -1,5 +1,13 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { resolveEnvVars } from './loader.js';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  findExistingConfigPath,
+  loadConfig,
+  loadConfigWithSources,
+  resolveEnvVars,
+} from './loader.js';
 
 describe('resolveEnvVars', () => {
   beforeEach(() => {
@@ -37,3 +45,230 @@ describe('resolveEnvVars', () => {
       .toBe('Bearer test-key-123 extra');
   });
 });
+
+describe('loadConfig', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-selector-loader-'));
+    // Keep the real user config out of the merge.
+    vi.stubEnv('HOME', tempDir);
+    vi.stubEnv('MODEL_SELECTOR_CONFIG', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true });
+  });
+
+  function writeToml(name: string, content: string): string {
+    const filePath = path.join(tempDir, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  it('applies declared attribute defaults', () => {
+    const configPath = writeToml(
+      'config.toml',
+      [
+        '[attributes]',
+        'local = { type = "boolean", default = false }',
+        'cost = { type = "number", range = [1, 10], description = "Relative price" }',
+        '',
+        '[models.gpt.attributes]',
+        'cost = 8',
+      ].join('\n')
+    );
+    const config = loadConfig(configPath);
+    expect(config.attributes?.['cost']?.range).toEqual([1, 10]);
+    expect(config.models['gpt']!.attributes).toEqual({ cost: 8, local: false });
+  });
+
+  it('reads unit suffixes only for attributes declared as numbers', () => {
+    const configPath = writeToml(
+      'config.toml',
+      [
+        '[attributes]',
+        'context_window = { type = "number", default = "8k" }',
+        'params = { type = "number" }',
+        '',
+        '[models.llama.attributes]',
+        'context_window = "128k"',
+        'params = "70B"',
+        'variant = "7b"',
+        'tags = ["7b"]',
+        '',
+        '[models.phi.attributes]',
+        'variant = "2T"',
+      ].join('\n')
+    );
+    const { models } = loadConfig(configPath);
+    expect(models['llama']!.attributes).toEqual({
+      context_window: 128_000,
+      params: 70e9,
+      variant: '7b',
+      tags: ['7b'],
+    });
+    expect(models['phi']!.attributes).toEqual({ variant: '2T', context_window: 8000 });
+  });
+
+  it('checks models against declarations from another file', () => {
+    writeToml(
+      '.config/model-selector/config.toml',
+      '[attributes]\ncost = { type = "number", range = [1, 10] }\n\n[models]\n'
+    );
+    const configPath = writeToml('project.toml', '[models.gpt.attributes]\ncost = "cheap"\n');
+    expect(() => loadConfig(configPath)).toThrow(
+      'models.gpt.attributes.cost: expected number, got string'
+    );
+  });
+
+  it('rejects a parameterized alias named like a directive', () => {
+    const configPath = writeToml('config.toml', '[aliases]\n"min(a)" = "$a <= 3"\n');
+    expect(() => loadConfig(configPath)).toThrow('always parses as the min() directive');
+  });
+
+  describe('layered files', () => {
+    const USER_CONFIG = [
+      '[attributes]',
+      'local = { type = "boolean", default = false }',
+      '',
+      '[models.gpt5]',
+      'provider = "openai"',
+      'base_url = "https://api.openai.com/v1"',
+      '',
+      '[models.gpt5.attributes]',
+      'cost = 8',
+      'functions = true',
+      '',
+      '[models.llama]',
+      'provider = "ollama"',
+    ].join('\n');
+
+    it('merges a model field by field', () => {
+      const userPath = writeToml('.config/model-selector/config.toml', USER_CONFIG);
+      const projectPath = writeToml(
+        'project.toml',
+        '[models.gpt5]\nenabled = false\n\n[models.gpt5.attributes]\ncost = 6\n'
+      );
+      const { config, sources, files } = loadConfigWithSources(projectPath);
+
+      expect(files).toEqual([userPath, projectPath]);
+      expect(config.models['gpt5']).toMatchObject({
+        provider: 'openai',
+        enabled: false,
+        attributes: { cost: 6, functions: true, local: false },
+      });
+      expect(sources).toMatchObject({
+        'models.gpt5.provider': userPath,
+        'models.gpt5.enabled': projectPath,
+        'models.gpt5.attributes.cost': projectPath,
+        'models.gpt5.attributes.functions': userPath,
+        'models.gpt5.attributes.local': userPath,
+        'attributes.local': userPath,
+      });
+    });
+
+    it('drops inherited models and fields', () => {
+      writeToml('.config/model-selector/config.toml', USER_CONFIG);
+      const projectPath = writeToml(
+        'project.toml',
+        [
+          '[models.llama]',
+          'delete = true',
+          '',
+          '[models.gpt5]',
+          'unset = ["base_url", "attributes.functions"]',
+        ].join('\n')
+      );
+      const { config, sources } = loadConfigWithSources(projectPath);
+
+      expect(Object.keys(config.models)).toEqual(['gpt5']);
+      expect(config.models['gpt5']!.base_url).toBeUndefined();
+      expect(config.models['gpt5']!.attributes).toEqual({ cost: 8, local: false });
+      expect(Object.keys(sources).filter((key) => key.includes('llama'))).toEqual([]);
+      expect(sources['models.gpt5.attributes.functions']).toBeUndefined();
+    });
+
+    it('redefines a deleted model from the same table', () => {
+      writeToml('.config/model-selector/config.toml', USER_CONFIG);
+      const projectPath = writeToml(
+        'project.toml',
+        '[models.gpt5]\ndelete = true\nprovider = "azure"\n'
+      );
+      expect(loadConfig(projectPath).models['gpt5']).toEqual({
+        provider: 'azure',
+        enabled: true,
+        attributes: { local: false },
+      });
+    });
+
+    it('rejects unknown fields to unset', () => {
+      const configPath = writeToml('config.toml', '[models.gpt5]\nunset = ["price"]\n');
+      expect(() => loadConfig(configPath)).toThrow('models.gpt5.unset: unknown model field "price"');
+    });
+  });
+
+  describe('includes and .d directories', () => {
+    it('loads included files before the including file', () => {
+      const openaiPath = writeToml('models/openai.toml', '[models.gpt]\nprovider = "openai"\n');
+      const ollamaPath = writeToml('models/ollama.toml', '[models.llama]\nprovider = "ollama"\n');
+      const configPath = writeToml(
+        'config.toml',
+        'include = ["models/*.toml"]\n\n[models.gpt]\nenabled = false\n'
+      );
+      const { config, files } = loadConfigWithSources(configPath);
+
+      expect(files).toEqual([ollamaPath, openaiPath, configPath]);
+      expect(config.models['gpt']).toMatchObject({ provider: 'openai', enabled: false });
+      expect(config.models['llama']).toMatchObject({ provider: 'ollama' });
+    });
+
+    it('resolves includes relative to the including file', () => {
+      writeToml('shared/base.toml', 'include = ["extra/more.toml"]\n\n[models.gpt]\n');
+      writeToml('shared/extra/more.toml', '[models.llama]\n');
+      const configPath = writeToml('app/config.toml', 'include = ["../shared/base.toml"]\n');
+      expect(Object.keys(loadConfig(configPath).models)).toEqual(['llama', 'gpt']);
+    });
+
+    it('rejects a missing include and include cycles', () => {
+      const missing = writeToml('missing.toml', 'include = ["nope.toml"]\n\n[models]\n');
+      expect(() => loadConfig(missing)).toThrow('include "nope.toml": no such file');
+
+      writeToml('a.toml', 'include = ["b.toml"]\n\n[models]\n');
+      writeToml('b.toml', 'include = ["a.toml"]\n\n[models]\n');
+      const a = path.join(tempDir, 'a.toml');
+      const b = path.join(tempDir, 'b.toml');
+      expect(() => loadConfig(a)).toThrow(`Include cycle: ${a} -> ${b} -> ${a}`);
+    });
+
+    it('merges a .d directory in lexical order after its config file', () => {
+      const configPath = writeToml('config.toml', '[models.gpt.attributes]\ncost = 8\n');
+      writeToml('config.d/20-cheap.toml', '[models.gpt.attributes]\ncost = 2\n');
+      writeToml('config.d/10-pricey.toml', '[models.gpt.attributes]\ncost = 9\n');
+      writeToml('config.d/notes.txt', 'not a config');
+      expect(loadConfig(configPath).models['gpt']!.attributes).toEqual({ cost: 2 });
+    });
+
+    it('loads a .d directory without its config file', () => {
+      writeToml('.config/model-selector/config.d/models.toml', '[models.gpt]\n');
+      expect(findExistingConfigPath()).toBe(
+        path.join(tempDir, '.config', 'model-selector', 'config.toml')
+      );
+      expect(Object.keys(loadConfig().models)).toEqual(['gpt']);
+    });
+
+    it('names the file a value came from in validation errors', () => {
+      writeToml('decl.toml', '[attributes]\ncost = { type = "number" }\n\n[models]\n');
+      const modelsPath = writeToml('models.toml', '[models.gpt.attributes]\ncost = "cheap"\n');
+      const configPath = writeToml(
+        'config.toml',
+        'include = ["decl.toml", "models.toml"]\n\n[models]\n'
+      );
+      expect(() => loadConfig(configPath)).toThrow(
+        `models.gpt.attributes.cost: expected number, got string (in ${modelsPath})`
+      );
+    });
+  });
+});
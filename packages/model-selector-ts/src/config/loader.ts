@@ -2,7 +2,11 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { parse as parseToml } from 'smol-toml';
-import { Config, ConfigSchema, ModelConfig } from '../types.js';
+import { z } from 'zod';
+import { compilePattern } from '../query/parser.js';
+import { Config, ConfigSchema, ModelConfig, ModelConfigSchema } from '../types.js';
+import { applyAttributeDefaults } from './attributes.js';
+import { ConfigError, ConfigErrorCode } from './errors.js';
 
 /**
  * Get default config file locations (searched in order).
@@ -19,18 +23,74 @@ function getConfigLocations(): string[] {
 }
 
 /**
- * Find the first existing config file path.
- * Returns null if no config file exists.
+ * A config layer by name: the user file, the project file, or the file
+ * $MODEL_SELECTOR_CONFIG names.
  */
-export function findExistingConfigPath(customPath?: string): string | null {
+export type ConfigLayerName = 'user' | 'project' | 'env';
+
+/**
+ * The file behind a config layer. Anything but a layer name is a path and is
+ * returned as is.
+ *
+ * @throws ConfigError for `env` when $MODEL_SELECTOR_CONFIG is not set
+ */
+export function getConfigLayerPath(layer: ConfigLayerName | string): string {
+  const [userPath, projectPath] = getConfigLocations() as [string, string];
+  switch (layer) {
+    case 'user':
+      return userPath;
+    case 'project':
+      return projectPath;
+    case 'env': {
+      const envPath = process.env['MODEL_SELECTOR_CONFIG'];
+      if (!envPath) {
+        throw new ConfigError(
+          'The env layer needs $MODEL_SELECTOR_CONFIG to be set.',
+          ConfigErrorCode.FILE_NOT_FOUND
+        );
+      }
+      return envPath;
+    }
+    default:
+      return layer;
+  }
+}
+
+/**
+ * Every path `loadConfig` reads, lowest precedence first: the default
+ * locations, then $MODEL_SELECTOR_CONFIG, then `customPath`.
+ */
+export function getConfigSearchPaths(customPath?: string): string[] {
   const searchPaths = getConfigLocations();
 
   const envPath = process.env['MODEL_SELECTOR_CONFIG'];
   if (envPath) searchPaths.push(envPath);
   if (customPath) searchPaths.push(customPath);
+  return searchPaths;
+}
+
+/**
+ * The directory whose files extend a config file: `model-selector.d/` for
+ * `model-selector.toml`.
+ */
+export function getConfigDirectory(configPath: string): string {
+  return `${configPath.replace(/\.toml$/, '')}.d`;
+}
+
+function isDirectory(dirPath: string): boolean {
+  return fs.existsSync(dirPath) && fs.statSync(dirPath).isDirectory();
+}
+
+/**
+ * Find the first existing config file path: a search path counts when the
+ * file or its `.d` directory exists.
+ * Returns null if no config file exists.
+ */
+export function findExistingConfigPath(customPath?: string): string | null {
+  const searchPaths = getConfigSearchPaths(customPath);
 
   for (const configPath of searchPaths) {
-    if (fs.existsSync(configPath)) {
+    if (fs.existsSync(configPath) || isDirectory(getConfigDirectory(configPath))) {
       return configPath;
     }
   }
@@ -63,39 +123,322 @@ function processModelConfig(config: ModelConfig): ModelConfig {
   };
 }
 
+/** A config file's contents as written, before schema defaults apply. */
+type ConfigLayer = z.input<typeof ConfigSchema>;
+type ModelLayer = z.input<typeof ModelConfigSchema>;
+
 /**
- * Load and parse a single TOML config file.
+ * Per-model merge directives a file may give in a `[models.<id>]` table:
+ * `delete = true` drops the model inherited from earlier files, and
+ * `unset = ["base_url", "attributes.cost"]` drops some of its fields.
  */
-function loadConfigFile(filePath: string): Config | null {
-  try {
-    if (!fs.existsSync(filePath)) {
-      return null;
+const ModelDirectivesSchema = z.object({
+  delete: z.boolean().optional(),
+  unset: z.array(z.string()).optional(),
+});
+
+type ModelDirectives = z.infer<typeof ModelDirectivesSchema>;
+
+// Model fields merged per key rather than replaced as a whole.
+const KEYED_MODEL_FIELDS = new Set(['attributes', 'provenance']);
+
+interface LoadedFile {
+  path: string;
+  config: ConfigLayer;
+  directives: Record<string, ModelDirectives>;
+}
+
+/**
+ * Which file each value of a loaded config came from, by dotted path:
+ * `models.<id>.<field>`, `models.<id>.attributes.<name>`, `aliases.<name>`,
+ * `attributes.<name>`, `profiles.<name>`, `defaults.unknown`,
+ * `defaults.attributes.<name>` and `defaults.providers.<provider>.<name>`.
+ * Attributes filled in from a declared default point at the declaring file.
+ */
+export type ConfigSources = Record<string, string>;
+
+export interface ConfigWithSources {
+  config: Config;
+  sources: ConfigSources;
+  /** The files that were read, lowest precedence first. */
+  files: string[];
+}
+
+function checkUnsetPath(field: string): string | null {
+  const [name, key, ...rest] = field.split('.');
+  if (!name || !Object.hasOwn(ModelConfigSchema.shape, name)) {
+    return `unknown model field "${field}"`;
+  }
+  if (key !== undefined && (!KEYED_MODEL_FIELDS.has(name) || !key || rest.length > 0)) {
+    return `"${field}" is not a model field or ${[...KEYED_MODEL_FIELDS].join('/')}.<name>`;
+  }
+  return null;
+}
+
+/**
+ * Take the merge directives out of a file's model tables, so what remains is
+ * plain config.
+ */
+function splitDirectives(doc: Record<string, unknown>): Omit<LoadedFile, 'path'> {
+  const directives: Record<string, ModelDirectives> = {};
+  // A file may be a fragment, e.g. one holding only includes or aliases.
+  const models = doc['models'] ?? {};
+  if (typeof models !== 'object' || models === null || Array.isArray(models)) {
+    return { config: doc as ConfigLayer, directives };
+  }
+
+  const plain: Record<string, unknown> = {};
+  for (const [id, table] of Object.entries(models)) {
+    if (typeof table !== 'object' || table === null || Array.isArray(table)) {
+      plain[id] = table;
+      continue;
+    }
+    const { delete: remove, unset, ...fields } = table as Record<string, unknown>;
+    if (remove !== undefined || unset !== undefined) {
+      const result = ModelDirectivesSchema.safeParse({ delete: remove, unset });
+      if (!result.success) {
+        const issues = result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+        throw new Error(`models.${id}: ${issues.join(', ')}`);
+      }
+      for (const field of result.data.unset ?? []) {
+        const problem = checkUnsetPath(field);
+        if (problem) throw new Error(`models.${id}.unset: ${problem}`);
+      }
+      directives[id] = result.data;
+      // A table holding only directives changes an inherited model, and
+      // defines none of its own.
+      if (Object.keys(fields).length === 0) continue;
+    }
+    plain[id] = fields;
+  }
+  return { config: { ...doc, models: plain } as ConfigLayer, directives };
+}
+
+/** The `.toml` files in a directory, in lexical order. */
+function listConfigFiles(dirPath: string): string[] {
+  return fs
+    .readdirSync(dirPath)
+    .filter((name) => name.endsWith('.toml') && !name.startsWith('.'))
+    .sort()
+    .map((name) => path.join(dirPath, name));
+}
+
+/**
+ * The files an `include` pattern names, relative to `baseDir`. `*` and `?`
+ * match within one path segment; matches come in lexical order.
+ */
+function expandInclude(pattern: string, baseDir: string): string[] {
+  const absolute = path.resolve(baseDir, pattern);
+  const { root } = path.parse(absolute);
+  let matches = [root];
+  for (const segment of absolute.slice(root.length).split(path.sep)) {
+    if (!/[*?]/.test(segment)) {
+      matches = matches.map((dir) => path.join(dir, segment));
+      continue;
     }
+    const wildcard = compilePattern('~', segment);
+    matches = matches.flatMap((dir) =>
+      (isDirectory(dir) ? fs.readdirSync(dir) : [])
+        .filter((name) => wildcard.test(name) && (segment.startsWith('.') || !name.startsWith('.')))
+        .sort()
+        .map((name) => path.join(dir, name))
+    );
+  }
+  return matches.filter((match) => fs.existsSync(match) && fs.statSync(match).isFile());
+}
+
+/**
+ * Load and parse a TOML config file, preceded by the files it includes.
+ *
+ * Each file is validated on its own, but kept as written so that schema
+ * defaults don't override earlier files when merged. `including` is the chain
+ * of files that led here, to detect include cycles.
+ */
+function loadConfigFile(filePath: string, including: readonly string[] = []): LoadedFile[] {
+  const resolved = path.resolve(filePath);
+  if (including.includes(resolved)) {
+    throw new Error(`Include cycle: ${[...including, resolved].join(' -> ')}`);
+  }
+
+  let file: LoadedFile;
+  const included: string[] = [];
+  try {
     const content = fs.readFileSync(filePath, 'utf-8');
-    const parsed = parseToml(content);
-    return ConfigSchema.parse(parsed);
+    const { include, ...doc } = parseToml(content);
+    const patterns = include ?? [];
+    if (!Array.isArray(patterns) || !patterns.every((p) => typeof p === 'string' && p)) {
+      throw new Error('include: expected a list of paths');
+    }
+    for (const pattern of patterns as string[]) {
+      const matches = expandInclude(pattern, path.dirname(resolved));
+      if (matches.length === 0 && !/[*?]/.test(pattern)) {
+        throw new Error(`include "${pattern}": no such file`);
+      }
+      included.push(...matches);
+    }
+    const { config, directives } = splitDirectives(doc);
+    ConfigSchema.parse(config);
+    file = { path: filePath, config, directives };
   } catch (error) {
     throw new Error(`Failed to parse config file ${filePath}: ${error}`);
   }
+
+  const chain = [...including, resolved];
+  return [...included.flatMap((includePath) => loadConfigFile(includePath, chain)), file];
 }
 
 /**
- * Merge multiple configs, with later configs taking precedence.
+ * The files one search path contributes, lowest precedence first: the file
+ * with its includes, then the files of its `.d` directory in lexical order.
  */
-function mergeConfigs(configs: Config[]): Config {
-  const merged: Config = {
-    aliases: {},
-    models: {},
-  };
+function loadConfigLayers(configPath: string): LoadedFile[] {
+  const files = fs.existsSync(configPath) ? loadConfigFile(configPath) : [];
+  const dirPath = getConfigDirectory(configPath);
+  if (isDirectory(dirPath)) {
+    for (const filePath of listConfigFiles(dirPath)) files.push(...loadConfigFile(filePath));
+  }
+  return files;
+}
+
+/**
+ * The file that set the value at an issue's path, or the first one that set
+ * a value under it.
+ */
+function sourceOf(sources: ConfigSources, issuePath: (string | number)[]): string | undefined {
+  for (let length = issuePath.length; length > 0; length--) {
+    const key = issuePath.slice(0, length).join('.');
+    const nested = Object.entries(sources).find(([valuePath]) => valuePath.startsWith(`${key}.`));
+    const source = sources[key] ?? nested?.[1];
+    if (source) return source;
+  }
+  return undefined;
+}
+
+/** Forget the sources of `prefix` and everything under it. */
+function dropSources(sources: ConfigSources, prefix: string): void {
+  for (const key of Object.keys(sources)) {
+    if (key === prefix || key.startsWith(`${prefix}.`)) delete sources[key];
+  }
+}
+
+/** Copy each entry of `values` into `target`, recording `file` as its source. */
+function assignFrom<T>(
+  target: Record<string, T>,
+  values: Record<string, T> | undefined,
+  prefix: string,
+  file: string,
+  sources: ConfigSources
+): void {
+  for (const [key, value] of Object.entries(values ?? {})) {
+    target[key] = value;
+    sources[`${prefix}.${key}`] = file;
+  }
+}
+
+/**
+ * Merge one file's model into the model inherited from earlier files: after
+ * the file's directives, each field it gives replaces the inherited one, and
+ * `attributes` / `provenance` merge per key.
+ */
+function mergeModel(
+  inherited: ModelLayer | undefined,
+  fields: ModelLayer | undefined,
+  directives: ModelDirectives,
+  prefix: string,
+  file: string,
+  sources: ConfigSources
+): ModelLayer {
+  const model: Record<string, unknown> = { ...inherited };
+  for (const field of directives.unset ?? []) {
+    const [name, key] = field.split('.') as [keyof ModelLayer, string | undefined];
+    if (key === undefined) {
+      delete model[name];
+    } else if (model[name]) {
+      const { [key]: _, ...rest } = model[name] as Record<string, unknown>;
+      model[name] = rest;
+    }
+    dropSources(sources, `${prefix}.${field}`);
+  }
+
+  for (const [name, value] of Object.entries(fields ?? {})) {
+    if (KEYED_MODEL_FIELDS.has(name)) {
+      const merged = { ...(model[name] as Record<string, unknown> | undefined) };
+      assignFrom(merged, value as Record<string, unknown>, `${prefix}.${name}`, file, sources);
+      model[name] = merged;
+    } else {
+      model[name] = value;
+      sources[`${prefix}.${name}`] = file;
+    }
+  }
+  return model as ModelLayer;
+}
 
-  for (const config of configs) {
+/**
+ * Merge config files, with later files taking precedence, and record where
+ * each value came from. Models merge field by field; aliases, attribute
+ * declarations and profiles merge by name; defaults merge per attribute.
+ */
+function mergeConfigs(files: LoadedFile[], sources: ConfigSources): ConfigLayer {
+  const merged = {
+    aliases: {} as Record<string, string>,
+    models: {} as Record<string, ModelLayer>,
+  } satisfies ConfigLayer;
+  let attributes: ConfigLayer['attributes'];
+  let defaults: ConfigLayer['defaults'];
+  let profiles: ConfigLayer['profiles'];
+
+  for (const { path: file, config, directives } of files) {
     // Merge aliases
-    Object.assign(merged.aliases, config.aliases);
-    // Merge models (later overrides earlier)
-    Object.assign(merged.models, config.models);
+    assignFrom(merged.aliases, config.aliases, 'aliases', file, sources);
+    // Merge attribute declarations
+    if (config.attributes) {
+      attributes = { ...attributes };
+      assignFrom(attributes, config.attributes, 'attributes', file, sources);
+    }
+    // Merge match defaults, per provider
+    if (config.defaults) {
+      const providers = { ...defaults?.providers };
+      for (const [provider, values] of Object.entries(config.defaults.providers ?? {})) {
+        providers[provider] = { ...providers[provider] };
+        assignFrom(providers[provider], values, `defaults.providers.${provider}`, file, sources);
+      }
+      const attributeDefaults = { ...defaults?.attributes };
+      const prefix = 'defaults.attributes';
+      assignFrom(attributeDefaults, config.defaults.attributes, prefix, file, sources);
+      if (config.defaults.unknown) sources['defaults.unknown'] = file;
+      defaults = {
+        unknown: config.defaults.unknown ?? defaults?.unknown,
+        attributes: attributeDefaults,
+        providers,
+      };
+    }
+    // Merge profiles (a later profile replaces one of the same name)
+    if (config.profiles) {
+      profiles = { ...profiles };
+      assignFrom(profiles, config.profiles, 'profiles', file, sources);
+    }
+    // Merge models field by field, after any deletes
+    const ids = new Set([...Object.keys(directives), ...Object.keys(config.models)]);
+    for (const id of ids) {
+      const prefix = `models.${id}`;
+      const fields = Object.hasOwn(config.models, id) ? config.models[id] : undefined;
+      const modelDirectives = directives[id] ?? {};
+      if (modelDirectives.delete) {
+        delete merged.models[id];
+        dropSources(sources, prefix);
+      }
+      const inherited = Object.hasOwn(merged.models, id) ? merged.models[id] : undefined;
+      if (!inherited && !fields) continue;
+      merged.models[id] = mergeModel(inherited, fields, modelDirectives, prefix, file, sources);
+    }
   }
 
-  return merged;
+  return {
+    ...merged,
+    ...(attributes && { attributes }),
+    ...(defaults && { defaults }),
+    ...(profiles && { profiles }),
+  };
 }
 
 /**
@@ -106,46 +449,113 @@ function mergeConfigs(configs: Config[]): Config {
  * 2. ./model-selector.toml (project overrides)
  * 3. $MODEL_SELECTOR_CONFIG (custom path via env var)
  *
- * Configs are merged, with later ones overriding earlier ones.
+ * A file's `include = ["models/*.toml"]` loads those files (relative to it)
+ * before it, and the `.toml` files of a `.d` directory beside a config file
+ * (`model-selector.d/`) load after it, in lexical order.
+ *
+ * Configs are merged, with later ones overriding earlier ones field by field;
+ * see `loadConfigWithSources`. Models are checked against the merged
+ * `[attributes]` declarations, and declared defaults fill in attributes a
+ * model omits.
  */
 export function loadConfig(customPath?: string): Config {
-  const configs: Config[] = [];
-  const searchPaths = getConfigLocations();
-
-  // Add custom path from env var or parameter
-  const envPath = process.env['MODEL_SELECTOR_CONFIG'];
-  if (envPath) {
-    searchPaths.push(envPath);
-  }
-  if (customPath) {
-    searchPaths.push(customPath);
-  }
-
-  for (const configPath of searchPaths) {
-    const config = loadConfigFile(configPath);
-    if (config) {
-      configs.push(config);
-    }
-  }
+  return loadConfigWithSources(customPath).config;
+}
 
-  if (configs.length === 0) {
+/**
+ * Load config as `loadConfig` does, and report which file each value came
+ * from.
+ *
+ * A later file overrides single fields of a model from an earlier one, so a
+ * project file with just `[models.gpt5] enabled = false` keeps gpt5's
+ * attributes from the user config. In a `[models.<id>]` table,
+ * `delete = true` drops the inherited model (any other fields in the table
+ * then define it afresh) and `unset = ["base_url", "attributes.cost"]` drops
+ * inherited fields.
+ *
+ * @example
+ * ```typescript
+ * const { config, sources } = loadConfigWithSources();
+ * sources['models.gpt5.enabled'];  // "/work/app/model-selector.toml"
+ * ```
+ */
+export function loadConfigWithSources(customPath?: string): ConfigWithSources {
+  const searchPaths = getConfigSearchPaths(customPath);
+  const loaded = loadFromSearchPaths(searchPaths);
+  if (!loaded) {
     throw new Error(
       `No config files found. Searched: ${searchPaths.join(', ')}\n` +
         'Create a config at ~/.config/model-selector/config.toml or ./model-selector.toml'
     );
   }
+  return loaded;
+}
+
+/**
+ * How a file at `configPath` fits into the `loadConfig` layers: the config it
+ * inherits from the search paths below it, and the config with it (and its
+ * includes) merged on top, as `authored` (the values the files set) and as
+ * `merged` (with declared defaults filled in). Each is null when no file
+ * contributes to it. A path that isn't a search path stands alone and
+ * inherits nothing.
+ *
+ * @throws Error when one of the files is invalid
+ */
+export function loadConfigLayer(configPath: string): {
+  inherited: Config | null;
+  authored: Config | null;
+  merged: Config | null;
+} {
+  const searchPaths = getConfigSearchPaths();
+  const target = path.resolve(configPath);
+  const position = searchPaths.findIndex((searchPath) => path.resolve(searchPath) === target);
+  const below = position === -1 ? [] : searchPaths.slice(0, position);
+  const authored = loadFromSearchPaths([...below, configPath], false)?.config ?? null;
+  return {
+    inherited: loadFromSearchPaths(below)?.config ?? null,
+    authored,
+    merged: authored && applyAttributeDefaults(authored),
+  };
+}
+
+/**
+ * Load and merge the files of these search paths; null when there are none.
+ * Declared defaults fill in missing model attributes unless `defaults` is false.
+ */
+function loadFromSearchPaths(searchPaths: string[], defaults = true): ConfigWithSources | null {
+  const files: LoadedFile[] = [];
+  for (const configPath of searchPaths) {
+    files.push(...loadConfigLayers(configPath));
+  }
+  if (files.length === 0) return null;
 
-  const merged = mergeConfigs(configs);
+  // Declarations in one file constrain models from the others too.
+  const sources: ConfigSources = {};
+  const validation = ConfigSchema.safeParse(mergeConfigs(files, sources));
+  if (!validation.success) {
+    const issues = validation.error.issues.map((i) => {
+      const source = sourceOf(sources, i.path);
+      return `${i.path.join('.')}: ${i.message}${source ? ` (in ${source})` : ''}`;
+    });
+    throw new Error(`Invalid config: ${issues.join(', ')}`);
+  }
+  const merged = defaults ? applyAttributeDefaults(validation.data) : validation.data;
 
   // Process model configs to resolve env vars
   const processedModels: Record<string, ModelConfig> = {};
   for (const [name, config] of Object.entries(merged.models)) {
     processedModels[name] = processModelConfig(config);
+    for (const attribute of Object.keys(config.attributes)) {
+      const key = `models.${name}.attributes.${attribute}`;
+      const declaredIn = sources[`attributes.${attribute}`];
+      if (!sources[key] && declaredIn) sources[key] = declaredIn;
+    }
   }
 
   return {
-    ...merged,
-    models: processedModels,
+    config: { ...merged, models: processedModels },
+    sources,
+    files: files.map((file) => file.path),
   };
 }
 
@@ -157,3 +567,14 @@ export function getEnabledModels(config: Config): Array<{ name: string; config:
     .filter(([, model]) => model.enabled)
     .map(([name, config]) => ({ name, config }));
 }
+
+/**
+ * Fold the top-level provider into the matchable attributes so `provider = ...`
+ * queries work without the host duplicating the field in `attributes`.
+ */
+export function effectiveAttributes(config: ModelConfig): ModelConfig['attributes'] {
+  if (!config.provider || 'provider' in config.attributes) {
+    return config.attributes;
+  }
+  return { ...config.attributes, provider: config.provider };
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parse as parseToml } from 'smol-toml';
+import { applyEdits, editToml } from './toml-edit.js';
+import type { ConfigEdit } from './toml-edit.js';
+import { ConfigErrorCode } from './errors.js';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+const example = fs.readFileSync(
+  path.resolve(here, '../../../../shared/schema/model-selector.example.toml'),
+  'utf-8'
+);
+
+/** Edit the text, checking the result parses to the edited document. */
+function edit(content: string, edits: ConfigEdit[]): string {
+  const result = editToml(content, edits);
+  expect(parseToml(result)).toEqual(applyEdits(parseToml(content), edits));
+  return result;
+}
+
+describe('editToml', () => {
+  it('replaces a value in place, keeping its trailing comment', () => {
+    const result = edit(example, [{ path: ['models', 'llama3_70b', 'enabled'], value: true }]);
+    expect(result).toBe(
+      example.replace(
+        'enabled = false  # Disabled by default',
+        'enabled = true  # Disabled by default'
+      )
+    );
+  });
+
+  it('adds a key after the last key of its table', () => {
+    const result = edit(example, [{ path: ['aliases', 'ctx(n)'], value: 'context_window >= $n' }]);
+    expect(result).toBe(
+      example.replace(
+        'big_context = "context_window >= 100000"\n',
+        'big_context = "context_window >= 100000"\n"ctx(n)" = "context_window >= $n"\n'
+      )
+    );
+  });
+
+  it('adds a new table after related sections', () => {
+    const result = edit(example, [
+      {
+        path: ['models', 'kimi'],
+        value: { provider: 'moonshot', attributes: { cost: 2, tags: ['moe', 'chat'] } },
+      },
+    ]);
+    expect(result).toBe(
+      `${example}\n[models.kimi]\nprovider = "moonshot"\n\n` +
+        '[models.kimi.attributes]\ncost = 2\ntags = ["moe", "chat"]\n'
+    );
+  });
+
+  it('puts a new table before its existing subtables', () => {
+    const content = '[models.gpt.attributes]\ncost = 8\n';
+    expect(edit(content, [{ path: ['models', 'gpt', 'enabled'], value: false }])).toBe(
+      '[models.gpt]\nenabled = false\n\n[models.gpt.attributes]\ncost = 8\n'
+    );
+  });
+
+  it('removes a table with its sections and the comment above it', () => {
+    const result = edit(example, [{ path: ['models', 'claude'] }]);
+    const start = example.indexOf('# Anthropic Claude');
+    const end = example.indexOf('# Local Ollama - Llama 3\n');
+    expect(result).toBe(example.slice(0, start) + example.slice(end));
+  });
+
+  it('removes a key and leaves its neighbours alone', () => {
+    const result = edit(example, [{ path: ['models', 'gpt5', 'attributes', 'reasoning'] }]);
+    expect(result).toBe(
+      example.replace(
+        'functions = true\nreasoning = true\nlocal = false\n',
+        'functions = true\nlocal = false\n'
+      )
+    );
+  });
+
+  it('merges a table value key by key', () => {
+    const result = edit(example, [
+      {
+        path: ['profiles', 'summarize'],
+        value: { query: 'big_context, cheap, max(instruction_following)', count: 3 },
+      },
+    ]);
+    expect(result).toBe(example.replace('count = 2\nfallback = "cheap"\n', 'count = 3\n'));
+  });
+
+  it('edits inside inline tables', () => {
+    const result = edit(example, [
+      { path: ['attributes', 'speed', 'range'], value: [0, 10] },
+      { path: ['attributes', 'local', 'description'] },
+    ]);
+    expect(result).toContain(
+      'speed = { type = "number", range = [0, 10], description = "Relative generation speed" }'
+    );
+    expect(result).toContain('local = { type = "boolean", default = false }');
+    expect(result).toContain('# Optional attribute declarations');
+  });
+
+  it('edits dotted keys, multi-line arrays and quoted keys', () => {
+    const content = [
+      '# models',
+      '[models."gpt-4.1"]',
+      'attributes.cost = 8',
+      'attributes.tags = [',
+      '  "chat",  # comment inside the array',
+      '  "fp8",',
+      ']',
+      'provider = "openai"',
+      '',
+    ].join('\n');
+    const result = edit(content, [
+      { path: ['models', 'gpt-4.1', 'attributes', 'speed'], value: 9 },
+      { path: ['models', 'gpt-4.1', 'attributes', 'tags'], value: ['chat'] },
+    ]);
+    expect(result).toBe(
+      [
+        '# models',
+        '[models."gpt-4.1"]',
+        'attributes.cost = 8',
+        'attributes.tags = ["chat"]',
+        'attributes.speed = 9',
+        'provider = "openai"',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('adds root keys above the first table', () => {
+    const result = edit(example, [{ path: ['include'], value: ['models/*.toml'] }]);
+    expect(result).toBe(
+      example.replace(
+        '# Configurable aliases',
+        'include = ["models/*.toml"]\n\n# Configurable aliases'
+      )
+    );
+  });
+
+  it('replaces an array of tables with a table', () => {
+    const content = '# servers\n[[servers]]\nname = "a"\n\n[[servers]]\nname = "c"\n';
+    expect(edit(content, [{ path: ['servers'], value: { name: 'b' } }])).toBe(
+      '[servers]\nname = "b"\n'
+    );
+  });
+
+  it('refuses an edit it cannot make in place', () => {
+    const content = '# servers\n[[servers]]\nname = "a"\n';
+    expect(() => editToml(content, [{ path: ['servers', 'port'], value: 1 }])).toThrow(
+      expect.objectContaining({ code: ConfigErrorCode.SERIALIZE_ERROR })
+    );
+  });
+});
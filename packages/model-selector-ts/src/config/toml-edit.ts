@@ -0,0 +1,447 @@
+import { parse as parseToml } from 'smol-toml';
+import { ConfigError, ConfigErrorCode } from './errors.js';
+
+/**
+ * A change to a config file: set the value at `path`, or remove it when
+ * `value` is undefined.
+ */
+export interface ConfigEdit {
+  path: string[];
+  value?: unknown;
+}
+
+/** A `key = value` line (or lines, for a multi-line value). */
+interface Entry {
+  /** The section's path plus the dotted key. */
+  path: string[];
+  /** Offset of the line the entry starts on. */
+  start: number;
+  valueStart: number;
+  valueEnd: number;
+  /** Offset after the entry's last line. */
+  end: number;
+}
+
+/** A `[table]` header and its entries; the first section is the root. */
+interface Section {
+  path: string[];
+  /** Array-of-tables sections (`[[name]]`) are never edited. */
+  isArray: boolean;
+  /** Offset of the comment lines directly above the header, else of the header. */
+  commentStart: number;
+  /** Offset after the header line. */
+  bodyStart: number;
+  entries: Entry[];
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date)
+  );
+}
+
+const isPrefix = (prefix: readonly string[], keys: readonly string[]): boolean =>
+  prefix.length <= keys.length && prefix.every((key, i) => key === keys[i]);
+
+/** Deep equality of TOML values, ignoring key order and undefined values. */
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isSameValue(item, b[i]));
+  }
+  if (isTable(a) && isTable(b)) {
+    const keys = (table: Record<string, unknown>) =>
+      Object.keys(table).filter((key) => table[key] !== undefined);
+    const aKeys = keys(a);
+    return (
+      aKeys.length === keys(b).length &&
+      aKeys.every((key) => Object.hasOwn(b, key) && isSameValue(a[key], b[key]))
+    );
+  }
+  return Object.is(a, b);
+}
+
+function valueAt(doc: unknown, keys: readonly string[]): unknown {
+  let value = doc;
+  for (const key of keys) {
+    value = isTable(value) && Object.hasOwn(value, key) ? value[key] : undefined;
+  }
+  return value;
+}
+
+/** Set or (for undefined) remove the value at `keys`, creating tables as needed. */
+function setIn(table: Record<string, unknown>, keys: readonly string[], value: unknown): void {
+  let target = table;
+  for (const key of keys.slice(0, -1)) {
+    if (!isTable(target[key])) target[key] = {};
+    target = target[key] as Record<string, unknown>;
+  }
+  if (value === undefined) delete target[keys.at(-1)!];
+  else target[keys.at(-1)!] = value;
+}
+
+/** A copy of `doc` with the edits applied. */
+export function applyEdits(
+  doc: Record<string, unknown>,
+  edits: ConfigEdit[]
+): Record<string, unknown> {
+  const result = structuredClone(doc);
+  for (const { path, value } of edits) setIn(result, path, value);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Scanning: where each header and entry sits in the text. The text has
+// already parsed, so the scanner only has to find where things end.
+
+const BARE_KEY_RE = /[A-Za-z0-9_-]/;
+
+class TomlScanner {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  scan(): Section[] {
+    const root: Section = { path: [], isArray: false, commentStart: 0, bodyStart: 0, entries: [] };
+    const sections = [root];
+    let section = root;
+    for (;;) {
+      this.skipBlank(true);
+      if (this.pos >= this.text.length) return sections;
+      const start = this.text.lastIndexOf('\n', this.pos - 1) + 1;
+      if (this.text[this.pos] === '[') {
+        const isArray = this.text[this.pos + 1] === '[';
+        this.pos += isArray ? 2 : 1;
+        const path = this.readKey();
+        this.skipToLineEnd();
+        const commentStart = this.commentStart(start);
+        section = { path, isArray, commentStart, bodyStart: this.pos, entries: [] };
+        sections.push(section);
+      } else {
+        const key = this.readKey();
+        this.skipBlank(false);
+        this.pos++; // '='
+        this.skipBlank(false);
+        const valueStart = this.pos;
+        this.skipValue();
+        const valueEnd = this.pos;
+        this.skipToLineEnd();
+        const path = [...section.path, ...key];
+        section.entries.push({ path, start, valueStart, valueEnd, end: this.pos });
+      }
+    }
+  }
+
+  /** The start of the comment lines directly above the line at `lineStart`. */
+  private commentStart(lineStart: number): number {
+    let start = lineStart;
+    while (start > 0) {
+      const previous = this.text.lastIndexOf('\n', start - 2) + 1;
+      if (!this.text.slice(previous, start).trimStart().startsWith('#')) break;
+      start = previous;
+    }
+    return start;
+  }
+
+  /** Skip whitespace and comments, and newlines when `lines` is set. */
+  private skipBlank(lines: boolean): void {
+    while (this.pos < this.text.length) {
+      const ch = this.text[this.pos]!;
+      if (ch === ' ' || ch === '\t' || (lines && (ch === '\n' || ch === '\r'))) {
+        this.pos++;
+      } else if (lines && ch === '#') {
+        while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipToLineEnd(): void {
+    const newline = this.text.indexOf('\n', this.pos);
+    this.pos = newline === -1 ? this.text.length : newline + 1;
+  }
+
+  /** Read a dotted key, ending before `=` or a header's `]`. */
+  private readKey(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipBlank(false);
+      const ch = this.text[this.pos];
+      if (ch === '"' || ch === "'") {
+        const start = this.pos;
+        this.skipString();
+        const quoted = this.text.slice(start, this.pos);
+        keys.push(ch === '"' ? (JSON.parse(quoted) as string) : quoted.slice(1, -1));
+      } else {
+        const start = this.pos;
+        while (this.pos < this.text.length && BARE_KEY_RE.test(this.text[this.pos]!)) this.pos++;
+        keys.push(this.text.slice(start, this.pos));
+      }
+      this.skipBlank(false);
+      if (this.text[this.pos] !== '.') return keys;
+      this.pos++;
+    }
+  }
+
+  private skipString(): void {
+    const quote = this.text[this.pos]!;
+    const triple = quote.repeat(3);
+    if (this.text.startsWith(triple, this.pos)) {
+      this.pos += 3;
+      while (this.pos < this.text.length && !this.text.startsWith(triple, this.pos)) {
+        this.pos += quote === '"' && this.text[this.pos] === '\\' ? 2 : 1;
+      }
+      this.pos += 3;
+      // Up to two quotes may end the content right before the delimiter.
+      for (let extra = 0; extra < 2 && this.text[this.pos] === quote; extra++) this.pos++;
+      return;
+    }
+    this.pos++;
+    while (this.pos < this.text.length && this.text[this.pos] !== quote) {
+      this.pos += quote === '"' && this.text[this.pos] === '\\' ? 2 : 1;
+    }
+    this.pos++;
+  }
+
+  private skipValue(): void {
+    const ch = this.text[this.pos];
+    if (ch === '"' || ch === "'") {
+      this.skipString();
+    } else if (ch === '[' || ch === '{') {
+      const close = ch === '[' ? ']' : '}';
+      this.pos++;
+      for (;;) {
+        this.skipBlank(true);
+        if (this.text[this.pos] === close) break;
+        if (this.text[this.pos] === ',') {
+          this.pos++;
+          continue;
+        }
+        if (close === '}') {
+          this.readKey();
+          this.pos++; // '='
+          this.skipBlank(false);
+        }
+        this.skipValue();
+      }
+      this.pos++;
+    } else {
+      // Numbers, booleans and dates (which may contain a space)
+      while (this.pos < this.text.length && !',]}#\r\n'.includes(this.text[this.pos]!)) this.pos++;
+      while (this.text[this.pos - 1] === ' ' || this.text[this.pos - 1] === '\t') this.pos--;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Formatting new keys and values.
+
+function formatKey(key: string): string {
+  return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+const formatPath = (keys: readonly string[]): string => keys.map(formatKey).join('.');
+
+/** A value as written on one line; tables become inline tables. */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (typeof value === 'number') {
+    if (Number.isFinite(value)) return String(value);
+    return Number.isNaN(value) ? 'nan' : value > 0 ? 'inf' : '-inf';
+  }
+  if (typeof value === 'boolean' || typeof value === 'bigint') return String(value);
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`;
+  if (isTable(value)) {
+    const pairs = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .map(([key, item]) => `${formatKey(key)} = ${formatValue(item)}`);
+    return pairs.length > 0 ? `{ ${pairs.join(', ')} }` : '{}';
+  }
+  throw new TypeError(`Cannot write a ${typeof value} to TOML`);
+}
+
+/** A `[path]` section for a table, followed by sections for its subtables. */
+function formatSection(keys: readonly string[], table: Record<string, unknown>): string {
+  const lines = [`[${formatPath(keys)}]`];
+  const subtables: string[] = [];
+  for (const [key, value] of Object.entries(table)) {
+    if (value === undefined) continue;
+    if (isTable(value)) subtables.push(formatSection([...keys, key], value));
+    else lines.push(`${formatKey(key)} = ${formatValue(value)}`);
+  }
+  return [`${lines.join('\n')}\n`, ...subtables].join('\n');
+}
+
+// ---------------------------------------------------------------------------
+// Editing the text.
+
+const splice = (text: string, start: number, end: number, insert: string): string =>
+  text.slice(0, start) + insert + text.slice(end);
+
+/** Where a section's last entry ends (or its header, when it has none). */
+const sectionEnd = (section: Section): number =>
+  section.entries.at(-1)?.end ?? section.bodyStart;
+
+/** Text to insert at `offset` so that `line` starts on a line of its own. */
+const onNewLine = (text: string, offset: number, line: string): string =>
+  offset > 0 && text[offset - 1] !== '\n' ? `\n${line}` : line;
+
+/** Rewrite an entry holding an inline table (or other value) `keys` runs through. */
+function rewriteEntry(text: string, entry: Entry, keys: string[], value: unknown): string {
+  const current = parseToml(`v = ${text.slice(entry.valueStart, entry.valueEnd)}`)['v'];
+  const table = { v: isTable(current) ? current : {} };
+  setIn(table, ['v', ...keys], value);
+  return splice(text, entry.valueStart, entry.valueEnd, formatValue(table.v));
+}
+
+/** Add a table at `keys` as new sections, near related ones. */
+function insertSection(
+  text: string,
+  sections: Section[],
+  keys: string[],
+  table: Record<string, unknown>
+): string {
+  const block = formatSection(keys, table);
+  // Before its own subtables, so `[models.a]` precedes `[models.a.attributes]`
+  const child = sections.find((s) => s.path.length > keys.length && isPrefix(keys, s.path));
+  if (child) return splice(text, child.commentStart, child.commentStart, `${block}\n`);
+
+  // After the last section sharing the longest prefix, e.g. the other models
+  let best: Section | undefined;
+  let shared = 0;
+  for (const section of sections) {
+    let common = 0;
+    while (common < keys.length && section.path[common] === keys[common]) common++;
+    if (common > 0 && common >= shared) [best, shared] = [section, common];
+  }
+  const offset = best ? sectionEnd(best) : text.length;
+  return splice(text, offset, offset, offset > 0 ? onNewLine(text, offset, `\n${block}`) : block);
+}
+
+/** Add a `key = value` line for a value that isn't in the text yet. */
+function insertEntry(text: string, sections: Section[], keys: string[], value: unknown): string {
+  const table = keys.slice(0, -1);
+  const editable = sections.filter((s) => !s.isArray);
+  const own = editable.find((s) => isPrefix(s.path, table) && s.path.length === table.length);
+  // Next to entries of the same table, written relative to their section
+  const sibling = editable
+    .flatMap((section) => section.entries.map((entry) => ({ section, entry })))
+    .filter(({ section, entry }) => isPrefix(section.path, table) && isPrefix(table, entry.path))
+    .at(-1);
+
+  if (own && (own.entries.length > 0 || !sibling)) {
+    if (own.path.length === 0 && own.entries.length === 0) {
+      // Root keys go above the first header and its comments.
+      const next = sections[1];
+      const offset = next?.commentStart ?? text.length;
+      const line = `${formatPath(keys)} = ${formatValue(value)}\n${next ? '\n' : ''}`;
+      return splice(text, offset, offset, onNewLine(text, offset, line));
+    }
+    const offset = sectionEnd(own);
+    const line = `${formatPath(keys.slice(own.path.length))} = ${formatValue(value)}\n`;
+    return splice(text, offset, offset, onNewLine(text, offset, line));
+  }
+  if (sibling) {
+    const offset = sibling.entry.end;
+    const line = `${formatPath(keys.slice(sibling.section.path.length))} = ${formatValue(value)}\n`;
+    return splice(text, offset, offset, onNewLine(text, offset, line));
+  }
+  return insertSection(text, sections, table, { [keys.at(-1)!]: value });
+}
+
+/** Remove the value at `keys`: its entry, or the sections and entries of a table. */
+function removeValue(text: string, keys: string[]): string {
+  const sections = new TomlScanner(text).scan();
+  const entries = sections.flatMap((section) => section.entries);
+  const holder = entries.find((e) => e.path.length < keys.length && isPrefix(e.path, keys));
+  if (holder) return rewriteEntry(text, holder, keys.slice(holder.path.length), undefined);
+
+  const ranges: Array<[number, number]> = [];
+  sections.forEach((section, i) => {
+    if (section.path.length > 0 && isPrefix(keys, section.path)) {
+      const next = sections[i + 1];
+      ranges.push([section.commentStart, next ? next.commentStart : text.length]);
+      return;
+    }
+    for (const entry of section.entries) {
+      if (isPrefix(keys, entry.path)) ranges.push([entry.start, entry.end]);
+    }
+  });
+  for (const [start, end] of ranges.sort((a, b) => b[0] - a[0])) {
+    text = splice(text, start, end, '');
+    // Removing the last section leaves the blank lines that separated it.
+    if (start === text.length) text = text.replace(/\n+$/, '\n');
+  }
+  return text;
+}
+
+function setValue(text: string, keys: string[], value: unknown): string {
+  const doc = parseToml(text);
+  const current = valueAt(doc, keys);
+  if (isSameValue(current, value)) return text;
+
+  if (isTable(current) && isTable(value)) {
+    // Key by key, so untouched keys keep their lines and comments
+    for (const key of Object.keys(current)) {
+      if (value[key] === undefined) text = removeValue(text, [...keys, key]);
+    }
+    for (const [key, item] of Object.entries(value)) {
+      if (item !== undefined) text = setValue(text, [...keys, key], item);
+    }
+    return text;
+  }
+
+  const sections = new TomlScanner(text).scan();
+  const entries = sections.flatMap((section) => section.entries);
+  const exact = entries.find((e) => e.path.length === keys.length && isPrefix(e.path, keys));
+  if (exact) return splice(text, exact.valueStart, exact.valueEnd, formatValue(value));
+  const holder = entries.find((e) => e.path.length < keys.length && isPrefix(e.path, keys));
+  if (holder) return rewriteEntry(text, holder, keys.slice(holder.path.length), value);
+
+  if (current !== undefined) {
+    const removed = removeValue(text, keys);
+    if (removed === text) throw new Error(`Cannot replace ${formatPath(keys)}`);
+    return setValue(removed, keys, value);
+  }
+  return isTable(value)
+    ? insertSection(text, sections, keys, value)
+    : insertEntry(text, sections, keys, value);
+}
+
+/**
+ * Apply edits to a TOML document's text, keeping its comments, key order and
+ * formatting outside the edited values. Values set in place keep their line's
+ * trailing comment; new keys go after their table's last key, and new tables
+ * after related sections; removing a table removes the comments directly
+ * above its header.
+ *
+ * The edited text is checked against the edits applied to the parsed
+ * document. An edit that can't be made in place is an error, never a silent
+ * rewrite that drops the comments; `writeConfig` rewrites a file in full.
+ *
+ * @throws Error when `content` is not valid TOML
+ * @throws ConfigError (`SERIALIZE_ERROR`) when the edits can't be made in place
+ */
+export function editToml(content: string, edits: ConfigEdit[]): string {
+  const expected = applyEdits(parseToml(content), edits);
+  let edited: string | undefined;
+  try {
+    let text = content;
+    for (const { path, value } of edits) {
+      text = value === undefined ? removeValue(text, path) : setValue(text, path, value);
+    }
+    if (isSameValue(parseToml(text), expected)) edited = text;
+  } catch {
+    // An edit that breaks the document is reported below.
+  }
+  if (edited === undefined) {
+    const paths = edits.map((edit) => formatPath(edit.path)).join(', ');
+    throw new ConfigError(
+      `Cannot edit ${paths} in place without losing the file's layout`,
+      ConfigErrorCode.SERIALIZE_ERROR
+    );
+  }
+  return edited;
+}
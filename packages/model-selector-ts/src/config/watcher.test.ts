@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Config } from '../types.js';
+import { ConfigWatcher, diffConfigs, watchConfig } from './watcher.js';
+import type { ConfigChangeEvent } from './watcher.js';
+
+const model = (attributes: Record<string, number>, enabled = true) => ({ enabled, attributes });
+
+describe('diffConfigs', () => {
+  it('reports model and alias changes', () => {
+    const before: Config = {
+      aliases: { fast: 'speed >= 7', old: 'cost <= 1' },
+      models: { gpt: model({ cost: 8 }), haiku: model({ cost: 2 }), llama: model({ cost: 0 }) },
+    };
+    const after: Config = {
+      aliases: { fast: 'speed >= 8', cheap: 'cost <= 3' },
+      models: {
+        gpt: model({ cost: 7 }),
+        haiku: model({ cost: 2 }, false),
+        flash: model({ cost: 1 }),
+      },
+    };
+    expect(diffConfigs(before, after)).toEqual([
+      {
+        type: 'model_updated',
+        modelId: 'gpt',
+        previous: before.models['gpt'],
+        model: after.models['gpt'],
+      },
+      { type: 'model_enabled', modelId: 'haiku', enabled: false },
+      { type: 'model_added', modelId: 'flash', model: after.models['flash'] },
+      { type: 'model_removed', modelId: 'llama', model: before.models['llama'] },
+      { type: 'alias_changed', alias: 'fast', previous: 'speed >= 7', query: 'speed >= 8' },
+      { type: 'alias_changed', alias: 'cheap', previous: undefined, query: 'cost <= 3' },
+      { type: 'alias_changed', alias: 'old', previous: 'cost <= 1', query: undefined },
+    ]);
+  });
+
+  it('treats everything as added when there was no config', () => {
+    const config: Config = { aliases: { fast: 'speed >= 7' }, models: { gpt: model({ cost: 8 }) } };
+    expect(diffConfigs(null, config).map((c) => c.type)).toEqual(['model_added', 'alias_changed']);
+  });
+});
+
+describe('ConfigWatcher', () => {
+  let tempDir: string;
+  let configPath: string;
+  let watcher: ConfigWatcher | undefined;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-selector-watcher-'));
+    vi.stubEnv('HOME', tempDir);
+    vi.stubEnv('MODEL_SELECTOR_CONFIG', '');
+    configPath = path.join(tempDir, 'config.toml');
+    fs.writeFileSync(configPath, '[models.gpt]\nenabled = true\n');
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true });
+  });
+
+  it('watches every search path, its .d directory, included files and their directory', () => {
+    const includePath = path.join(tempDir, 'models', 'local.toml');
+    fs.mkdirSync(path.dirname(includePath));
+    fs.writeFileSync(includePath, '[models.llama]\n');
+    fs.writeFileSync(configPath, 'include = ["models/*.toml"]\n\n[models.gpt]\nenabled = true\n');
+
+    watcher = watchConfig(() => {}, { configPath, persistent: false });
+    expect(watcher.watchedPaths).toEqual([
+      path.join(tempDir, '.config', 'model-selector', 'config.toml'),
+      path.join(tempDir, '.config', 'model-selector', 'config.d'),
+      path.join(process.cwd(), 'model-selector.toml'),
+      path.join(process.cwd(), 'model-selector.d'),
+      configPath,
+      path.join(tempDir, 'config.d'),
+      includePath,
+      path.dirname(includePath),
+    ]);
+    expect(Object.keys(watcher.config?.models ?? {})).toEqual(['llama', 'gpt']);
+  });
+
+  it('loads the config', () => {
+    watcher = watchConfig(() => {}, { configPath, persistent: false });
+    expect(Object.keys(watcher.config?.models ?? {})).toEqual(['gpt']);
+  });
+
+  it('emits typed changes on reload', () => {
+    const events: ConfigChangeEvent[] = [];
+    watcher = watchConfig((event) => events.push(event), { configPath, persistent: false });
+
+    expect(watcher.reload()).toBe(false);
+    fs.writeFileSync(configPath, '[aliases]\nfast = "speed >= 7"\n\n[models.gpt]\nenabled = false\n');
+    expect(watcher.reload()).toBe(true);
+    expect(events).toHaveLength(1);
+    expect(events[0]?.changes).toEqual([
+      { type: 'model_enabled', modelId: 'gpt', enabled: false },
+      { type: 'alias_changed', alias: 'fast', previous: undefined, query: 'speed >= 7' },
+    ]);
+    expect(events[0]?.config.models['gpt']?.enabled).toBe(false);
+  });
+
+  it('keeps the last good config when an edit is invalid', () => {
+    const errors: Error[] = [];
+    const onChange = vi.fn();
+    watcher = watchConfig(onChange, {
+      configPath,
+      persistent: false,
+      onError: (error) => errors.push(error),
+    });
+
+    fs.writeFileSync(configPath, '[models.gpt]\nenabled = "sometimes"\n');
+    expect(watcher.reload()).toBe(false);
+    expect(onChange).not.toHaveBeenCalled();
+    expect(errors[0]?.message).toContain('Failed to parse config file');
+    expect(watcher.config?.models['gpt']?.enabled).toBe(true);
+  });
+
+  it('reloads once after a burst of file changes', async () => {
+    const events: ConfigChangeEvent[] = [];
+    watcher = watchConfig((event) => events.push(event), {
+      configPath,
+      debounceMs: 50,
+      interval: 10,
+      persistent: false,
+    });
+
+    fs.writeFileSync(configPath, '[models.gpt]\nenabled = true\n\n[models.haiku]\n');
+    fs.writeFileSync(
+      configPath,
+      '[models.gpt]\nenabled = true\n\n[models.haiku]\n\n[models.flash]\n'
+    );
+    await vi.waitFor(() => expect(events).toHaveLength(1), { timeout: 5000, interval: 20 });
+    expect(events[0]?.changes.map((c) => c.type === 'model_added' && c.modelId)).toEqual([
+      'haiku',
+      'flash',
+    ]);
+  });
+
+  it('reloads when a file appears in an included directory', async () => {
+    fs.mkdirSync(path.join(tempDir, 'models'));
+    fs.writeFileSync(path.join(tempDir, 'models', 'a.toml'), '[models.llama]\n');
+    fs.writeFileSync(configPath, 'include = ["models/*.toml"]\n\n[models.gpt]\n');
+    const events: ConfigChangeEvent[] = [];
+    watcher = watchConfig((event) => events.push(event), {
+      configPath,
+      debounceMs: 50,
+      interval: 10,
+      persistent: false,
+    });
+
+    fs.writeFileSync(path.join(tempDir, 'models', 'b.toml'), '[models.phi]\n');
+    await vi.waitFor(() => expect(events).toHaveLength(1), { timeout: 5000, interval: 20 });
+    expect(events[0]?.changes).toMatchObject([{ type: 'model_added', modelId: 'phi' }]);
+  });
+
+  it('passes an error thrown by onChange to onError', async () => {
+    const errors: Error[] = [];
+    const onChange = (): void => {
+      throw new Error('listener failed');
+    };
+    watcher = watchConfig(onChange, {
+      configPath,
+      debounceMs: 50,
+      interval: 10,
+      persistent: false,
+      onError: (error) => errors.push(error),
+    });
+
+    fs.writeFileSync(configPath, '[models.gpt]\nenabled = true\n\n[models.haiku]\n');
+    await vi.waitFor(() => expect(errors).toHaveLength(1), { timeout: 5000, interval: 20 });
+    expect(errors[0]?.message).toBe('listener failed');
+    expect(watcher.config?.models['haiku']).toBeDefined();
+  });
+});
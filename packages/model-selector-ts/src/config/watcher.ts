@@ -0,0 +1,232 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Config, ModelConfig } from '../types.js';
+import { getConfigDirectory, getConfigSearchPaths, loadConfigWithSources } from './loader.js';
+
+/**
+ * One difference between two loaded configs.
+ *
+ * `model_updated` covers any change to a model other than `enabled`; a model
+ * whose `enabled` flag and attributes both change gets both events. For
+ * `alias_changed`, `previous` is undefined for a new alias and `query` for a
+ * removed one.
+ */
+export type ConfigChange =
+  | { type: 'model_added'; modelId: string; model: ModelConfig }
+  | { type: 'model_removed'; modelId: string; model: ModelConfig }
+  | { type: 'model_enabled'; modelId: string; enabled: boolean }
+  | { type: 'model_updated'; modelId: string; previous: ModelConfig; model: ModelConfig }
+  | { type: 'alias_changed'; alias: string; previous?: string; query?: string };
+
+export interface ConfigChangeEvent {
+  /** The newly loaded config. */
+  config: Config;
+  /** The config it replaces; null when none had loaded before. */
+  previous: Config | null;
+  /** What changed in models and aliases; empty when only other sections did. */
+  changes: ConfigChange[];
+}
+
+export interface WatchConfigOptions {
+  /** An extra config file, read last as by `loadConfig(customPath)`. */
+  configPath?: string;
+  /** Wait this long after the last file change before reloading. Default: 100 */
+  debounceMs?: number;
+  /** How often to check the files for changes, in ms. Default: 1000 */
+  interval?: number;
+  /** Keep the process alive while watching. Default: true */
+  persistent?: boolean;
+  /**
+   * Called when a reload fails (no config files, a TOML syntax error, a schema
+   * violation), and with what `onChange` throws on a scheduled reload. The
+   * last good config stays in effect.
+   */
+  onError?: (error: Error) => void;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * The model and alias changes from `previous` to `next`, in config order.
+ */
+export function diffConfigs(previous: Config | null, next: Config): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const before = previous?.models ?? {};
+
+  for (const [modelId, model] of Object.entries(next.models)) {
+    const old = Object.hasOwn(before, modelId) ? before[modelId] : undefined;
+    if (!old) {
+      changes.push({ type: 'model_added', modelId, model });
+      continue;
+    }
+    if (old.enabled !== model.enabled) {
+      changes.push({ type: 'model_enabled', modelId, enabled: model.enabled });
+    }
+    const { enabled: _old, ...oldRest } = old;
+    const { enabled: _new, ...newRest } = model;
+    if (!isEqual(oldRest, newRest)) {
+      changes.push({ type: 'model_updated', modelId, previous: old, model });
+    }
+  }
+  for (const [modelId, model] of Object.entries(before)) {
+    if (!Object.hasOwn(next.models, modelId)) {
+      changes.push({ type: 'model_removed', modelId, model });
+    }
+  }
+
+  const oldAliases = previous?.aliases ?? {};
+  const names = new Set([...Object.keys(next.aliases), ...Object.keys(oldAliases)]);
+  for (const alias of names) {
+    const query = Object.hasOwn(next.aliases, alias) ? next.aliases[alias] : undefined;
+    const old = Object.hasOwn(oldAliases, alias) ? oldAliases[alias] : undefined;
+    if (query !== old) changes.push({ type: 'alias_changed', alias, previous: old, query });
+  }
+  return changes;
+}
+
+/**
+ * Keeps a config loaded from the `loadConfig` search paths and reloads it when
+ * any of those files, their `.d` directories or the files they include is
+ * created, edited or deleted.
+ *
+ * Directories are watched for added and removed files: the `.d` directories,
+ * and the directory of each included file, so a new `models/extra.toml` is
+ * picked up by `include = ["models/*.toml"]`. A pattern that matches nothing
+ * yet has no directory to watch; its first file loads on the next reload.
+ *
+ * Changes are debounced, so an editor's save (often a write plus a rename)
+ * reloads once. A reload that fails validation leaves the last good config in
+ * place and goes to `onError`. Files are polled with `fs.watchFile`, which
+ * also notices files that don't exist yet.
+ *
+ * @example
+ * ```typescript
+ * const watcher = watchConfig(({ config, changes }) => {
+ *   registry = ModelRegistry.fromConfig(config);
+ *   log(changes);
+ * });
+ * // later
+ * watcher.close();
+ * ```
+ */
+export class ConfigWatcher {
+  private current: Config | null = null;
+  private timer: NodeJS.Timeout | undefined;
+  private readonly paths = new Set<string>();
+  private readonly searchPaths: readonly string[];
+  private readonly listener = (): void => this.schedule();
+  private closed = false;
+
+  constructor(
+    private readonly onChange: (event: ConfigChangeEvent) => void,
+    private readonly options: WatchConfigOptions = {}
+  ) {
+    this.searchPaths = getConfigSearchPaths(options.configPath);
+    // A directory's mtime changes when a file in it is added or removed.
+    this.watch(this.searchPaths.flatMap((filePath) => [filePath, getConfigDirectory(filePath)]));
+    try {
+      const { config, files } = loadConfigWithSources(options.configPath);
+      this.current = config;
+      this.watchLoaded(files);
+    } catch (error) {
+      this.options.onError?.(error as Error);
+    }
+  }
+
+  /** The last config that loaded and validated, or null if none has yet. */
+  get config(): Config | null {
+    return this.current;
+  }
+
+  /**
+   * The files being watched: the search paths and their `.d` directories,
+   * then any included or `.d` files, and the directories of included files,
+   * as they are first loaded.
+   */
+  get watchedPaths(): readonly string[] {
+    return [...this.paths];
+  }
+
+  /**
+   * Reload now. Calls `onChange` and returns true when the config changed;
+   * returns false when it didn't or the reload failed.
+   */
+  reload(): boolean {
+    let next: Config;
+    try {
+      const loaded = loadConfigWithSources(this.options.configPath);
+      next = loaded.config;
+      this.watchLoaded(loaded.files);
+    } catch (error) {
+      this.options.onError?.(error as Error);
+      return false;
+    }
+    const previous = this.current;
+    if (previous && isEqual(previous, next)) return false;
+    this.current = next;
+    this.onChange({ config: next, previous, changes: diffConfigs(previous, next) });
+    return true;
+  }
+
+  /** Stop watching. Pending reloads are dropped. */
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    clearTimeout(this.timer);
+    for (const filePath of this.paths) {
+      fs.unwatchFile(filePath, this.listener);
+    }
+  }
+
+  private watch(filePaths: string[]): void {
+    if (this.closed) return;
+    for (const filePath of filePaths) {
+      if (this.paths.has(filePath)) continue;
+      this.paths.add(filePath);
+      fs.watchFile(
+        filePath,
+        {
+          interval: this.options.interval ?? 1000,
+          persistent: this.options.persistent ?? true,
+        },
+        this.listener
+      );
+    }
+  }
+
+  /** Watch loaded files, and the directories an include found them in. */
+  private watchLoaded(files: string[]): void {
+    this.watch(
+      files.flatMap((filePath) =>
+        this.searchPaths.includes(filePath) ? [filePath] : [filePath, path.dirname(filePath)]
+      )
+    );
+  }
+
+  private schedule(): void {
+    if (this.closed) return;
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      if (this.closed) return;
+      try {
+        this.reload();
+      } catch (error) {
+        // Nothing is left to catch a listener's error on a timer.
+        this.options.onError?.(error as Error);
+      }
+    }, this.options.debounceMs ?? 100);
+  }
+}
+
+/**
+ * Watch the config files and call `onChange` with each new config; see
+ * `ConfigWatcher`. Call `close()` on the result to stop.
+ */
+export function watchConfig(
+  onChange: (event: ConfigChangeEvent) => void,
+  options?: WatchConfigOptions
+): ConfigWatcher {
+  return new ConfigWatcher(onChange, options);
+}
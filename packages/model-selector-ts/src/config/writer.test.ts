@@ -1,7 +1,8 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
 import { parse as parseToml } from 'smol-toml';
 import {
   writeConfig,
@@ -11,13 +12,18 @@ import {
   setModelEnabled,
   setAlias,
   removeAlias,
+  setProfile,
+  removeProfile,
   getDefaultConfigPath,
   validateModelConfig,
   validateConfig,
 } from './writer.js';
 import { ConfigErrorCode } from './errors.js';
+import { loadConfig } from './loader.js';
 import type { Config, ModelConfig } from '../types.js';
 
+const here = path.dirname(fileURLToPath(import.meta.url));
+
 describe('Config Writer', () => {
   let tempDir: string;
   let configPath: string;
@@ -25,9 +31,13 @@ describe('Config Writer', () => {
   beforeEach(async () => {
     tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'model-selector-test-'));
     configPath = path.join(tempDir, 'config.toml');
+    // Keep the real user config out of the layers below configPath.
+    vi.stubEnv('HOME', tempDir);
+    vi.stubEnv('MODEL_SELECTOR_CONFIG', '');
   });
 
   afterEach(async () => {
+    vi.unstubAllEnvs();
     await fs.rm(tempDir, { recursive: true });
   });
 
@@ -53,6 +63,15 @@ describe('Config Writer', () => {
       expect(result.errors).toHaveLength(0);
     });
 
+    it('checks attributes against declarations', () => {
+      const declarations = { cost: { type: 'number' as const, range: [1, 10] as [number, number] } };
+      expect(validateModelConfig({ attributes: { cost: 3 } }, declarations).valid).toBe(true);
+      expect(validateModelConfig({ attributes: { cost: 30 } }, declarations)).toEqual({
+        valid: false,
+        errors: ['attributes.cost: 30 is outside the declared range 1-10'],
+      });
+    });
+
     it('accepts a match-only entry with just attributes', () => {
       // Client fields (provider, model_id) are optional under the match-only contract.
       const result = validateModelConfig({ attributes: { speed: 7, cost: 2 } });
@@ -118,6 +137,21 @@ describe('Config Writer', () => {
       expect(parsed['models']['gpt4']).toBeDefined();
     });
 
+    it('round-trips list-valued attributes as TOML arrays', async () => {
+      const config: Config = {
+        aliases: {},
+        models: {
+          qwen: { enabled: true, attributes: { tags: ['fp8', 'chat'], bits: [4, 8], local: true } },
+        },
+      };
+      await writeConfig(config, { configPath });
+
+      const content = await fs.readFile(configPath, 'utf-8');
+      expect(content).toContain('tags = [ "fp8", "chat" ]');
+      const parsed = parseToml(content) as Config;
+      expect(parsed.models['qwen']!.attributes).toEqual(config.models['qwen']!.attributes);
+    });
+
     it('creates parent directories if needed', async () => {
       const nestedPath = path.join(tempDir, 'a', 'b', 'c', 'config.toml');
       const config: Config = { aliases: {}, models: {} };
@@ -210,6 +244,21 @@ describe('Config Writer', () => {
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe(ConfigErrorCode.INVALID_MODEL);
     });
+
+    it('rejects attributes that break the declared schema', async () => {
+      await writeConfig(
+        { aliases: {}, attributes: { cost: { type: 'number', range: [1, 10] } }, models: {} },
+        { configPath }
+      );
+      const result = await addModel(
+        'pricey',
+        { enabled: true, attributes: { cost: 'high' } },
+        { configPath }
+      );
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ConfigErrorCode.INVALID_MODEL);
+      expect(result.error?.message).toContain('attributes.cost: expected number, got string');
+    });
   });
 
   describe('updateModel', () => {
@@ -252,6 +301,92 @@ describe('Config Writer', () => {
       expect(model?.attributes['cost']).toBe(8);
     });
 
+    it('merges by provenance when a source is given', async () => {
+      await updateModel(
+        'mymodel',
+        { attributes: { speed: 5 }, provenance: { speed: 'user' } },
+        { configPath }
+      );
+      const result = await updateModel(
+        'mymodel',
+        { attributes: { speed: 8.2, quality: 6.1 } },
+        { configPath, source: 'derived' }
+      );
+      expect(result.success).toBe(true);
+
+      const content = await fs.readFile(configPath, 'utf-8');
+      const model = (parseToml(content) as Config)['models']['mymodel'];
+      expect(model?.attributes).toEqual({ speed: 5, quality: 6.1 });
+      expect(model?.provenance).toEqual({ speed: 'user', quality: 'derived' });
+    });
+
+    it('keeps synced facts unless overwriteFactual is set', async () => {
+      await updateModel(
+        'mymodel',
+        { attributes: { context_window: 8192 } },
+        { configPath, source: 'huggingface' }
+      );
+      await updateModel(
+        'mymodel',
+        { attributes: { context_window: 131072 } },
+        { configPath, source: 'huggingface' }
+      );
+      let content = await fs.readFile(configPath, 'utf-8');
+      expect((parseToml(content) as Config)['models']['mymodel']?.attributes['context_window'])
+        .toBe(8192);
+
+      await updateModel(
+        'mymodel',
+        { attributes: { context_window: 131072 } },
+        { configPath, source: 'huggingface', overwriteFactual: true }
+      );
+      content = await fs.readFile(configPath, 'utf-8');
+      expect((parseToml(content) as Config)['models']['mymodel']?.attributes['context_window'])
+        .toBe(131072);
+    });
+
+    it('writes provenance only for the attributes a sync sets', async () => {
+      await fs.writeFile(
+        configPath,
+        [
+          '[attributes]',
+          'local = { type = "boolean", default = false }',
+          '',
+          '[models.mymodel]',
+          'provider = "openai"',
+          '',
+          '[models.mymodel.attributes]',
+          'speed = 5',
+          'license = "mit"',
+          '',
+          '[models.mymodel.provenance]',
+          'license = "huggingface"',
+        ].join('\n')
+      );
+      const result = await updateModel(
+        'mymodel',
+        { attributes: { context_window: 8192, local: true, speed: 9 } },
+        { configPath, source: 'huggingface' }
+      );
+      expect(result.success).toBe(true);
+
+      const model = (parseToml(await fs.readFile(configPath, 'utf-8')) as Config)['models'][
+        'mymodel'
+      ];
+      // speed is host-authored; license stays, since an update only adds facts.
+      expect(model?.attributes).toEqual({
+        speed: 5,
+        license: 'mit',
+        context_window: 8192,
+        local: true,
+      });
+      expect(model?.provenance).toEqual({
+        license: 'huggingface',
+        context_window: 'huggingface',
+        local: 'huggingface',
+      });
+    });
+
     it('returns error if model not found', async () => {
       const result = await updateModel('nonexistent', { enabled: false }, { configPath });
       expect(result.success).toBe(false);
@@ -352,6 +487,49 @@ describe('Config Writer', () => {
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe(ConfigErrorCode.INVALID_ALIAS);
     });
+
+    it('adds a parameterized alias, replacing one of the same name', async () => {
+      await setAlias('ctx', 'context_window >= 32000', { configPath });
+      const result = await setAlias('ctx(n)', 'context_window >= $n', { configPath });
+      expect(result.success).toBe(true);
+
+      const content = await fs.readFile(configPath, 'utf-8');
+      const parsed = parseToml(content) as Config;
+      expect(parsed['aliases']).toEqual({ 'ctx(n)': 'context_window >= $n' });
+    });
+
+    it('rejects a query that does not parse', async () => {
+      const result = await setAlias('fast', 'speed >=', { configPath });
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ConfigErrorCode.INVALID_ALIAS);
+      expect(result.error?.message).toContain('expected a value after ">="');
+    });
+
+    it('rejects an alias that forms a cycle', async () => {
+      await setAlias('fast', 'speed >= 7', { configPath });
+      await setAlias('quick', 'fast', { configPath });
+      const result = await setAlias('fast', 'quick, cheap', { configPath });
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('alias cycle fast -> quick -> fast');
+
+      const content = await fs.readFile(configPath, 'utf-8');
+      const parsed = parseToml(content) as Config;
+      expect(parsed['aliases']['fast']).toBe('speed >= 7');
+    });
+
+    it('rejects a malformed parameter list', async () => {
+      const result = await setAlias('ctx(n', 'context_window >= $n', { configPath });
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ConfigErrorCode.INVALID_ALIAS);
+    });
+
+    it('rejects a parameterized alias named like a directive', async () => {
+      const result = await setAlias('max(n)', 'context_window >= $n', { configPath });
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ConfigErrorCode.INVALID_ALIAS);
+      expect(result.error?.message).toContain('always parses as the max() directive');
+      expect((await setAlias('max', 'quality >= 8', { configPath })).success).toBe(true);
+    });
   });
 
   describe('removeAlias', () => {
@@ -373,10 +551,269 @@ describe('Config Writer', () => {
       expect(parsed['aliases']['cheap']).toBe('cost <= 3');
     });
 
+    it('removes a parameterized alias by name', async () => {
+      await setAlias('ctx(n)', 'context_window >= $n', { configPath });
+      const result = await removeAlias('ctx', { configPath });
+      expect(result.success).toBe(true);
+
+      const content = await fs.readFile(configPath, 'utf-8');
+      const parsed = parseToml(content) as Config;
+      expect(parsed['aliases']).toEqual({ fast: 'speed >= 7', cheap: 'cost <= 3' });
+    });
+
     it('returns error if alias not found', async () => {
       const result = await removeAlias('nonexistent', { configPath });
       expect(result.success).toBe(false);
       expect(result.error?.code).toBe(ConfigErrorCode.ALIAS_NOT_FOUND);
     });
   });
+
+  describe('setProfile', () => {
+    it('adds a profile', async () => {
+      const result = await setProfile(
+        'summarize',
+        { query: 'context_window >= 100k, cheap', count: 2, require_match: true },
+        { configPath }
+      );
+      expect(result.success).toBe(true);
+
+      const content = await fs.readFile(configPath, 'utf-8');
+      const parsed = parseToml(content) as Config;
+      expect(parsed['profiles']?.['summarize']).toEqual({
+        query: 'context_window >= 100k, cheap',
+        count: 2,
+        require_match: true,
+      });
+    });
+
+    it('accepts a fallback to another profile in the file', async () => {
+      await setProfile('any', { query: 'cheap' }, { configPath });
+      const result = await setProfile(
+        'local',
+        { query: '+local', fallback: '@any' },
+        { configPath }
+      );
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects a query that does not parse', async () => {
+      const result = await setProfile('broken', { query: 'cost <=' }, { configPath });
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ConfigErrorCode.INVALID_PROFILE);
+    });
+
+    it('rejects a fallback to an unknown profile', async () => {
+      const result = await setProfile('local', { query: '+local', fallback: '@nope' }, { configPath });
+      expect(result.success).toBe(false);
+      expect(result.error?.message).toContain('unknown profile "@nope"');
+    });
+
+    it('rejects an invalid count', async () => {
+      const result = await setProfile('few', { query: 'cheap', count: 0 }, { configPath });
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ConfigErrorCode.INVALID_PROFILE);
+    });
+  });
+
+  describe('removeProfile', () => {
+    it('removes an existing profile', async () => {
+      await setProfile('summarize', { query: 'cheap' }, { configPath });
+      await setProfile('code', { query: 'functions' }, { configPath });
+      const result = await removeProfile('summarize', { configPath });
+      expect(result.success).toBe(true);
+
+      const content = await fs.readFile(configPath, 'utf-8');
+      const parsed = parseToml(content) as Config;
+      expect(Object.keys(parsed['profiles'] ?? {})).toEqual(['code']);
+    });
+
+    it('returns error if profile not found', async () => {
+      const result = await removeProfile('nonexistent', { configPath });
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe(ConfigErrorCode.PROFILE_NOT_FOUND);
+    });
+  });
+
+  describe('layers', () => {
+    let userPath: string;
+    let projectPath: string;
+
+    beforeEach(async () => {
+      vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+      userPath = path.join(tempDir, '.config', 'model-selector', 'config.toml');
+      projectPath = path.join(tempDir, 'model-selector.toml');
+      await fs.mkdir(path.dirname(userPath), { recursive: true });
+      await fs.writeFile(
+        userPath,
+        [
+          '[models.gpt5]',
+          'provider = "openai"',
+          'base_url = "https://api.openai.com/v1"',
+          '',
+          '[models.gpt5.attributes]',
+          'cost = 8',
+          'functions = true',
+          '',
+          '[models.llama]',
+          'provider = "ollama"',
+        ].join('\n')
+      );
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    const readToml = async (filePath: string) =>
+      parseToml(await fs.readFile(filePath, 'utf-8')) as Record<string, unknown>;
+
+    it('writes a minimal override into the chosen layer', async () => {
+      const before = await fs.readFile(userPath, 'utf-8');
+      const result = await setModelEnabled('gpt5', false, { layer: 'project' });
+      expect(result).toMatchObject({ success: true, path: projectPath });
+
+      expect(await readToml(projectPath)).toEqual({ models: { gpt5: { enabled: false } } });
+      expect(await fs.readFile(userPath, 'utf-8')).toBe(before);
+      expect(loadConfig().models['gpt5']).toMatchObject({
+        enabled: false,
+        attributes: { cost: 8, functions: true },
+      });
+    });
+
+    it('writes to the highest-precedence existing layer by default', async () => {
+      await fs.writeFile(projectPath, '[aliases]\ncheap = "cost <= 3"\n');
+      const result = await setModelEnabled('llama', false);
+      expect(result.path).toBe(projectPath);
+      expect(await readToml(projectPath)).toEqual({
+        aliases: { cheap: 'cost <= 3' },
+        models: { llama: { enabled: false } },
+      });
+    });
+
+    it('skips a layer that only has a .d directory', async () => {
+      await fs.mkdir(path.join(tempDir, 'model-selector.d'));
+      const result = await setModelEnabled('llama', false);
+      expect(result.path).toBe(userPath);
+      await expect(fs.access(projectPath)).rejects.toThrow();
+    });
+
+    it('unsets inherited fields a change drops', async () => {
+      const result = await updateModel(
+        'gpt5',
+        { base_url: undefined, attributes: { cost: 6, functions: true } },
+        { layer: 'project' }
+      );
+      expect(result.success).toBe(true);
+      expect(await readToml(projectPath)).toEqual({
+        models: { gpt5: { attributes: { cost: 6 }, unset: ['base_url'] } },
+      });
+      expect(loadConfig().models['gpt5']!.base_url).toBeUndefined();
+    });
+
+    it('deletes an inherited model', async () => {
+      const result = await removeModel('llama', { layer: 'project' });
+      expect(result.success).toBe(true);
+      expect(await readToml(projectPath)).toEqual({ models: { llama: { delete: true } } });
+      expect(Object.keys(loadConfig().models)).toEqual(['gpt5']);
+    });
+
+    it('keeps keys the schema drops, such as include', async () => {
+      await fs.writeFile(
+        projectPath,
+        'include = ["extra/*.toml"]\n\n[models.gpt5]\nunset = ["base_url"]\n'
+      );
+      await setAlias('fast', 'speed >= 7', { layer: 'project' });
+      expect(await readToml(projectPath)).toEqual({
+        include: ['extra/*.toml'],
+        models: { gpt5: { unset: ['base_url'] } },
+        aliases: { fast: 'speed >= 7' },
+      });
+    });
+
+    it('treats a configPath outside the search paths as standalone', async () => {
+      await fs.writeFile(projectPath, '[models.mistral]\nprovider = "mistral"\n');
+      const standalone = path.join(tempDir, 'other', 'config.toml');
+
+      const added = await addModel('gpt5', { provider: 'azure' } as ModelConfig, {
+        configPath: standalone,
+      });
+      expect(added.success).toBe(true);
+      expect(await removeModel('llama', { configPath: standalone })).toMatchObject({
+        success: false,
+        error: { code: ConfigErrorCode.MODEL_NOT_FOUND },
+      });
+      expect(await readToml(standalone)).toEqual({ models: { gpt5: { provider: 'azure' } } });
+    });
+
+    it('reports an invalid layer below the target as a failed write', async () => {
+      await fs.writeFile(userPath, '[models.gpt5]\nenabled = "yes"\n');
+      const result = await setModelEnabled('gpt5', false, { layer: 'project' });
+      expect(result).toMatchObject({
+        success: false,
+        path: projectPath,
+        error: { code: ConfigErrorCode.INVALID_CONFIG },
+      });
+      expect(result.error?.message).toContain(userPath);
+    });
+
+    it('requires $MODEL_SELECTOR_CONFIG for the env layer', async () => {
+      await expect(setAlias('fast', 'speed >= 7', { layer: 'env' })).rejects.toThrow(
+        'MODEL_SELECTOR_CONFIG'
+      );
+    });
+  });
+
+  describe('editing a hand-written file', () => {
+    let example: string;
+
+    beforeEach(async () => {
+      example = await fs.readFile(
+        path.resolve(here, '../../../../shared/schema/model-selector.example.toml'),
+        'utf-8'
+      );
+      await fs.writeFile(configPath, example);
+    });
+
+    it('keeps comments, key order and untouched sections', async () => {
+      expect((await setModelEnabled('llama3_70b', true, { configPath })).success).toBe(true);
+      expect((await setAlias('local_only', 'local = true', { configPath })).success).toBe(true);
+      expect((await removeModel('claude', { configPath })).success).toBe(true);
+
+      const start = example.indexOf('# Anthropic Claude');
+      const end = example.indexOf('# Local Ollama - Llama 3\n');
+      const expected = (example.slice(0, start) + example.slice(end))
+        .replace('enabled = false  # Disabled', 'enabled = true  # Disabled')
+        .replace('big_context = "context_window >= 100000"\n', '$&local_only = "local = true"\n');
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(expected);
+    });
+
+    it('appends a new model after the others', async () => {
+      const model: ModelConfig = {
+        provider: 'moonshot',
+        enabled: true,
+        attributes: { cost: 2, speed: 6 },
+      };
+      expect((await addModel('kimi', model, { configPath })).success).toBe(true);
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(
+        `${example}\n[models.kimi]\nprovider = "moonshot"\nenabled = true\n\n` +
+          '[models.kimi.attributes]\ncost = 2\nspeed = 6\n'
+      );
+    });
+
+    it('changes only the attributes that differ', async () => {
+      const result = await updateModel(
+        'gpt5',
+        { attributes: { cost: 7, speed: 6, local: false } },
+        { configPath }
+      );
+      expect(result.success).toBe(true);
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(
+        example.replace(
+          'context_window = 128000\ncost = 8\nspeed = 6\ninstruction_following = 9\n' +
+            'functions = true\nreasoning = true\nlocal = false\n',
+          'cost = 7\nspeed = 6\nlocal = false\n'
+        )
+      );
+    });
+  });
 });
@@ -1,18 +1,58 @@
+import { existsSync } from 'node:fs';
 import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import { stringify as stringifyToml } from 'smol-toml';
-import { Config, ConfigSchema, ModelConfig, ModelConfigSchema } from '../types.js';
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
+import {
+  AttributeDeclarations,
+  Config,
+  ConfigSchema,
+  ModelConfig,
+  ModelConfigSchema,
+  Profile,
+  ProfileSchema,
+  Provenance,
+} from '../types.js';
+import { aliasDirectiveConflict, parseAliasKey } from '../query/aliases.js';
+import { QueryParseError } from '../query/errors.js';
+import { parseQuery } from '../query/parser.js';
+import { mergeAttributes } from '../sync/merge.js';
+import { checkDeclaredAttributes, parseDeclaredNumbers } from './attributes.js';
 import { ConfigError, ConfigErrorCode } from './errors.js';
-import { findExistingConfigPath } from './loader.js';
+import {
+  ConfigLayerName,
+  getConfigLayerPath,
+  getConfigSearchPaths,
+  loadConfigLayer,
+} from './loader.js';
+import { applyEdits, ConfigEdit, editToml } from './toml-edit.js';
 
 export interface ConfigWriterOptions {
-  /** Path to write config. Defaults to ~/.config/model-selector/config.toml */
+  /** Path to write config. Takes precedence over `layer`. */
   configPath?: string;
+  /**
+   * The config layer to write: `user` (~/.config/model-selector/config.toml),
+   * `project` (./model-selector.toml), `env` ($MODEL_SELECTOR_CONFIG) or a
+   * file path. Defaults to the highest-precedence layer whose file exists, so
+   * the change takes effect, else `user`.
+   */
+  layer?: ConfigLayerName | string;
   /** If true, create parent directories if they don't exist. Default: true */
   createDirectories?: boolean;
 }
 
+export interface UpdateModelOptions extends ConfigWriterOptions {
+  /**
+   * Where the updated attribute values come from. When set, `attributes` are
+   * merged into the existing ones with MSEL-MERGE precedence
+   * (user > huggingface > derived) and recorded in `provenance`. When unset,
+   * `attributes` replaces the existing map wholesale.
+   */
+  source?: Provenance;
+  /** With `source: 'huggingface'`, refresh previously synced facts. Default: false */
+  overwriteFactual?: boolean;
+}
+
 export interface WriteResult {
   success: boolean;
   path: string;
@@ -28,13 +68,20 @@ export function getDefaultConfigPath(): string {
 
 /**
  * Get the config path from options or default.
+ *
+ * @throws ConfigError for the `env` layer when $MODEL_SELECTOR_CONFIG is not set
  */
 function getConfigPath(options?: ConfigWriterOptions): string {
   if (options?.configPath) {
     return options.configPath;
   }
-  // Find existing config using same logic as loader, or fall back to default
-  return findExistingConfigPath() ?? getDefaultConfigPath();
+  if (options?.layer) {
+    return getConfigLayerPath(options.layer);
+  }
+  // The last layer the loader reads wins, so write there. A layer with only a
+  // `.d` directory doesn't count: its file would be created from nothing.
+  const existing = getConfigSearchPaths().filter((configPath) => existsSync(configPath));
+  return existing.at(-1) ?? getDefaultConfigPath();
 }
 
 /**
@@ -46,24 +93,109 @@ export async function ensureConfigDirectory(configPath?: string): Promise<void>
   await fs.mkdir(dir, { recursive: true });
 }
 
+/**
+ * A config file as written, so keys such as `include` and `unset` survive and
+ * no schema defaults are added, and as parsed. `content` is undefined for a
+ * file that doesn't exist yet.
+ */
+interface ConfigFile {
+  content?: string;
+  doc: Record<string, unknown>;
+  config: Config;
+}
+
 /**
  * Load existing config or return empty config.
  */
-async function loadExistingConfig(configPath: string): Promise<Config> {
+async function loadExistingConfig(configPath: string): Promise<ConfigFile> {
   try {
     const content = await fs.readFile(configPath, 'utf-8');
-    const { parse: parseToml } = await import('smol-toml');
-    const parsed = parseToml(content);
-    return ConfigSchema.parse(parsed);
+    const doc = parseToml(content);
+    return { content, doc, config: ConfigSchema.parse({ models: {}, ...doc }) };
   } catch (error) {
     // File doesn't exist or is invalid, return empty config
     if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-      return { aliases: {}, models: {} };
+      return { doc: {}, config: { aliases: {}, models: {} } };
     }
     throw error;
   }
 }
 
+/**
+ * A config file with the layers it sits on (see `loadConfigLayer`), or the
+ * failed WriteResult when it or one of those layers is invalid.
+ */
+async function loadTarget(
+  configPath: string
+): Promise<
+  | ({ file: ConfigFile; error?: undefined } & ReturnType<typeof loadConfigLayer>)
+  | { error: WriteResult }
+> {
+  try {
+    const file = await loadExistingConfig(configPath);
+    return { file, ...loadConfigLayer(configPath) };
+  } catch (error) {
+    return {
+      error: {
+        success: false,
+        path: configPath,
+        error: new ConfigError(
+          `Failed to load config: ${(error as Error).message}`,
+          ConfigErrorCode.INVALID_CONFIG
+        ),
+      },
+    };
+  }
+}
+
+function isTable(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** The table at `keys` in a config file, if there is one. */
+function tableAt(
+  doc: Record<string, unknown>,
+  ...keys: string[]
+): Record<string, unknown> | undefined {
+  let table: unknown = doc;
+  for (const key of keys) {
+    table = isTable(table) && Object.hasOwn(table, key) ? table[key] : undefined;
+  }
+  return isTable(table) ? table : undefined;
+}
+
+/**
+ * Apply edits to a config file, check it, and write it. An existing file is
+ * edited in place, keeping its comments and layout, or not at all.
+ */
+async function writeEdits(
+  configPath: string,
+  file: ConfigFile,
+  edits: ConfigEdit[],
+  options?: ConfigWriterOptions
+): Promise<WriteResult> {
+  const doc = applyEdits(file.doc, edits);
+  const validation = validateConfig({ models: {}, ...doc });
+  if (!validation.valid) {
+    return {
+      success: false,
+      path: configPath,
+      error: new ConfigError(
+        `Invalid config: ${validation.errors.join(', ')}`,
+        ConfigErrorCode.INVALID_CONFIG
+      ),
+    };
+  }
+  let content: string;
+  try {
+    content = file.content === undefined ? stringifyToml(doc) : editToml(file.content, edits);
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    return { success: false, path: configPath, error };
+  }
+  return writeContentToFile(content, configPath, options);
+}
+
 /**
  * Write config to disk atomically.
  */
@@ -71,6 +203,17 @@ async function writeConfigToFile(
   config: Config,
   configPath: string,
   options?: ConfigWriterOptions
+): Promise<WriteResult> {
+  return writeContentToFile(stringifyToml(config as Record<string, unknown>), configPath, options);
+}
+
+/**
+ * Write TOML text to disk atomically.
+ */
+async function writeContentToFile(
+  tomlContent: string,
+  configPath: string,
+  options?: ConfigWriterOptions
 ): Promise<WriteResult> {
   try {
     // Ensure directory exists
@@ -78,9 +221,6 @@ async function writeConfigToFile(
       await ensureConfigDirectory(configPath);
     }
 
-    // Serialize to TOML
-    const tomlContent = stringifyToml(config as Record<string, unknown>);
-
     // Write atomically: temp file + rename
     const tempPath = `${configPath}.tmp.${process.pid}`;
     await fs.writeFile(tempPath, tomlContent, { mode: 0o600 });
@@ -102,12 +242,26 @@ async function writeConfigToFile(
 }
 
 /**
- * Validate a model config.
+ * Validate a model config, and its attributes against the config's
+ * `[attributes]` declarations when given.
  */
-export function validateModelConfig(config: unknown): { valid: boolean; errors: string[] } {
+export function validateModelConfig(
+  config: unknown,
+  declarations?: AttributeDeclarations
+): { valid: boolean; errors: string[] } {
   const result = ModelConfigSchema.safeParse(config);
   if (result.success) {
-    return { valid: true, errors: [] };
+    // A number attribute written as "128k" is read as a number on load.
+    const issues = declarations
+      ? checkDeclaredAttributes(
+          parseDeclaredNumbers(result.data.attributes, declarations),
+          declarations
+        )
+      : [];
+    return {
+      valid: issues.length === 0,
+      errors: issues.map((i) => `attributes.${i.attribute}: ${i.message}`),
+    };
   }
   return {
     valid: false,
@@ -130,7 +284,7 @@ export function validateConfig(config: unknown): { valid: boolean; errors: strin
 }
 
 /**
- * Write a complete config to disk (overwrites existing).
+ * Write a complete config to disk (overwrites the existing file and its comments).
  */
 export async function writeConfig(
   config: Config,
@@ -152,7 +306,8 @@ export async function writeConfig(
 }
 
 /**
- * Read, modify, and write config atomically.
+ * Read, modify, and write config atomically. The file is rewritten in full;
+ * the other writer functions edit it in place.
  */
 export async function updateConfig(
   updater: (config: Config) => Config,
@@ -160,10 +315,63 @@ export async function updateConfig(
 ): Promise<WriteResult> {
   const configPath = getConfigPath(options);
   const existing = await loadExistingConfig(configPath);
-  const updated = updater(existing);
+  const updated = updater(existing.config);
   return writeConfig(updated, options);
 }
 
+const isEqual = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The edits that turn `current`, a model as the layers up to this file merge
+ * it, into `updated`, changing only what differs. A field or attribute the
+ * file inherits is dropped with `unset`; one the file sets itself is removed.
+ */
+function modelEdits(
+  name: string,
+  current: ModelConfig,
+  updated: ModelConfig,
+  file: ConfigFile,
+  inherited: ModelConfig | undefined,
+  declarations: AttributeDeclarations
+): ConfigEdit[] {
+  const own = tableAt(file.doc, 'models', name) ?? {};
+  const unset = Array.isArray(own['unset']) ? [...(own['unset'] as string[])] : [];
+  const edits: ConfigEdit[] = [];
+  const change = (keys: string[], from: unknown, to: unknown): void => {
+    if (isEqual(from, to)) return;
+    if (to !== undefined) {
+      edits.push({ path: ['models', name, ...keys], value: to });
+      return;
+    }
+    const field = keys.join('.');
+    if (tableAt(file.doc, 'models', name, ...keys.slice(0, -1))?.[keys.at(-1)!] !== undefined) {
+      edits.push({ path: ['models', name, ...keys] });
+    }
+    let source: unknown = inherited;
+    for (const key of keys) source = isTable(source) ? source[key] : undefined;
+    if (source !== undefined && !unset.includes(field)) unset.push(field);
+  };
+
+  const fields = new Set([...Object.keys(current), ...Object.keys(updated)]);
+  for (const field of fields as Set<keyof ModelConfig>) {
+    if (field !== 'attributes' && field !== 'provenance') {
+      change([field], current[field], updated[field]);
+      continue;
+    }
+    const from = current[field] ?? {};
+    const to = updated[field] ?? {};
+    for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+      // A declared default comes back on load; there is nothing to remove.
+      if (field === 'attributes' && !(key in to) && declarations[key]?.default !== undefined) {
+        continue;
+      }
+      change([field, key], from[key], to[key]);
+    }
+  }
+  if (unset.length > 0) edits.push({ path: ['models', name, 'unset'], value: unset });
+  return edits;
+}
+
 /**
  * Add a new model to the config.
  */
@@ -172,11 +380,16 @@ export async function addModel(
   config: ModelConfig,
   options?: ConfigWriterOptions
 ): Promise<WriteResult> {
-  const validation = validateModelConfig(config);
+  const configPath = getConfigPath(options);
+  const target = await loadTarget(configPath);
+  if (target.error) return target.error;
+  const { file: existing, inherited, merged } = target;
+
+  const validation = validateModelConfig(config, merged?.attributes);
   if (!validation.valid) {
     return {
       success: false,
-      path: getConfigPath(options),
+      path: configPath,
       error: new ConfigError(
         `Invalid model config: ${validation.errors.join(', ')}`,
         ConfigErrorCode.INVALID_MODEL
@@ -184,10 +397,7 @@ export async function addModel(
     };
   }
 
-  const configPath = getConfigPath(options);
-  const existing = await loadExistingConfig(configPath);
-
-  if (existing.models[name]) {
+  if (merged && Object.hasOwn(merged.models, name)) {
     return {
       success: false,
       path: configPath,
@@ -198,27 +408,35 @@ export async function addModel(
     };
   }
 
-  return writeConfig(
-    {
-      ...existing,
-      models: { ...existing.models, [name]: config },
-    },
+  // A model deleted in this layer is defined afresh, without what it inherits.
+  const replaces = inherited && Object.hasOwn(inherited.models, name);
+  return writeEdits(
+    configPath,
+    existing,
+    [{ path: ['models', name], value: replaces ? { delete: true, ...config } : config }],
     options
   );
 }
 
 /**
  * Update an existing model.
+ *
+ * The model may come from this file or a layer below it; only the fields that
+ * change are written to this file, as overrides of the inherited ones. Pass
+ * `options.source` to merge attributes by provenance instead of replacing
+ * them, so a sync or derivation never clobbers host-authored values.
  */
 export async function updateModel(
   name: string,
   config: Partial<ModelConfig>,
-  options?: ConfigWriterOptions
+  options?: UpdateModelOptions
 ): Promise<WriteResult> {
   const configPath = getConfigPath(options);
-  const existing = await loadExistingConfig(configPath);
+  const target = await loadTarget(configPath);
+  if (target.error) return target.error;
+  const { file: existing, inherited, authored, merged } = target;
 
-  if (!existing.models[name]) {
+  if (!merged || !Object.hasOwn(merged.models, name)) {
     return {
       success: false,
       path: configPath,
@@ -229,8 +447,20 @@ export async function updateModel(
     };
   }
 
-  const merged = { ...existing.models[name], ...config };
-  const validation = validateModelConfig(merged);
+  const current = merged.models[name]!;
+  let updated: ModelConfig = { ...current, ...config };
+  if (options?.source && config.attributes) {
+    // Merge into what the files set; a declared default is no value to protect.
+    const { attributes, provenance } = mergeAttributes(
+      authored!.models[name]!,
+      config.attributes,
+      options.source,
+      { overwriteFactual: options.overwriteFactual }
+    );
+    updated = { ...updated, attributes, provenance };
+  }
+  const declarations = merged.attributes ?? {};
+  const validation = validateModelConfig(updated, declarations);
   if (!validation.valid) {
     return {
       success: false,
@@ -242,26 +472,29 @@ export async function updateModel(
     };
   }
 
-  return writeConfig(
-    {
-      ...existing,
-      models: { ...existing.models, [name]: merged },
-    },
+  const base = inherited?.models[name];
+  return writeEdits(
+    configPath,
+    existing,
+    modelEdits(name, current, updated, existing, base, declarations),
     options
   );
 }
 
 /**
- * Remove a model from the config.
+ * Remove a model from the config. A model this file doesn't define itself is
+ * removed with `delete = true`.
  */
 export async function removeModel(
   name: string,
   options?: ConfigWriterOptions
 ): Promise<WriteResult> {
   const configPath = getConfigPath(options);
-  const existing = await loadExistingConfig(configPath);
+  const target = await loadTarget(configPath);
+  if (target.error) return target.error;
+  const { file: existing, inherited, merged } = target;
 
-  if (!existing.models[name]) {
+  if (!merged || !Object.hasOwn(merged.models, name)) {
     return {
       success: false,
       path: configPath,
@@ -272,18 +505,17 @@ export async function removeModel(
     };
   }
 
-  const { [name]: _, ...rest } = existing.models;
-  return writeConfig(
-    {
-      ...existing,
-      models: rest,
-    },
+  const ownOnly = tableAt(existing.doc, 'models', name) && !inherited?.models[name];
+  return writeEdits(
+    configPath,
+    existing,
+    [{ path: ['models', name], value: ownOnly ? undefined : { delete: true } }],
     options
   );
 }
 
 /**
- * Enable or disable a model.
+ * Enable or disable a model, writing just `enabled` to the chosen layer.
  */
 export async function setModelEnabled(
   name: string,
@@ -295,17 +527,34 @@ export async function setModelEnabled(
 
 /**
  * Add or update an alias.
+ *
+ * `name` may declare parameters, e.g. `setAlias('ctx(n)', 'context_window >= $n')`,
+ * replacing any alias of the same name. The query must parse with the file's
+ * other aliases (each parameter standing in for itself), so an alias that
+ * refers to a missing alias or forms a cycle is rejected.
  */
 export async function setAlias(
   name: string,
   query: string,
   options?: ConfigWriterOptions
 ): Promise<WriteResult> {
-  if (!name || typeof name !== 'string') {
+  const key = name && typeof name === 'string' ? parseAliasKey(name) : null;
+  if (!key) {
     return {
       success: false,
       path: getConfigPath(options),
-      error: new ConfigError('Alias name must be a non-empty string', ConfigErrorCode.INVALID_ALIAS),
+      error: new ConfigError(
+        'Alias name must be a name such as "fast" or "ctx(n)"',
+        ConfigErrorCode.INVALID_ALIAS
+      ),
+    };
+  }
+  const conflict = aliasDirectiveConflict(key);
+  if (conflict) {
+    return {
+      success: false,
+      path: getConfigPath(options),
+      error: new ConfigError(`Invalid alias "${name}": ${conflict}`, ConfigErrorCode.INVALID_ALIAS),
     };
   }
   if (!query || typeof query !== 'string') {
@@ -316,17 +565,43 @@ export async function setAlias(
     };
   }
 
-  return updateConfig(
-    (existing) => ({
-      ...existing,
-      aliases: { ...existing.aliases, [name]: query },
-    }),
+  const configPath = getConfigPath(options);
+  const target = await loadTarget(configPath);
+  if (target.error) return target.error;
+  const { file: existing, merged } = target;
+  const replaced = Object.keys(existing.config.aliases).filter(
+    (k) => parseAliasKey(k)?.name === key.name
+  );
+  const aliases = Object.fromEntries(
+    Object.entries(merged?.aliases ?? {}).filter(([k]) => parseAliasKey(k)?.name !== key.name)
+  );
+  aliases[name] = query;
+
+  try {
+    const call = key.params.length > 0 ? `${key.name}(${key.params.join(', ')})` : key.name;
+    parseQuery(call, aliases);
+  } catch (err) {
+    if (!(err instanceof QueryParseError)) throw err;
+    return {
+      success: false,
+      path: configPath,
+      error: new ConfigError(`Invalid alias "${name}": ${err.message}`, ConfigErrorCode.INVALID_ALIAS),
+    };
+  }
+
+  return writeEdits(
+    configPath,
+    existing,
+    [
+      ...replaced.map((k): ConfigEdit => ({ path: ['aliases', k] })),
+      { path: ['aliases', name], value: query },
+    ],
     options
   );
 }
 
 /**
- * Remove an alias.
+ * Remove an alias. `name` is the alias name, with or without its parameters.
  */
 export async function removeAlias(
   name: string,
@@ -334,8 +609,12 @@ export async function removeAlias(
 ): Promise<WriteResult> {
   const configPath = getConfigPath(options);
   const existing = await loadExistingConfig(configPath);
+  const aliasName = parseAliasKey(name)?.name ?? name;
+  const key = Object.keys(existing.config.aliases).find(
+    (k) => parseAliasKey(k)?.name === aliasName
+  );
 
-  if (!existing.aliases[name]) {
+  if (key === undefined) {
     return {
       success: false,
       path: configPath,
@@ -343,12 +622,88 @@ export async function removeAlias(
     };
   }
 
-  const { [name]: _, ...rest } = existing.aliases;
-  return writeConfig(
-    {
-      ...existing,
-      aliases: rest,
-    },
-    options
-  );
+  return writeEdits(configPath, existing, [{ path: ['aliases', key] }], options);
+}
+
+/**
+ * Check that a profile's query (or `fallback` query) parses with `aliases`,
+ * and that a `@profile` reference names one of `profiles`.
+ */
+function checkProfileQuery(
+  query: string,
+  aliases: Config['aliases'],
+  profiles: Record<string, Profile>
+): string | null {
+  const reference = query.trim();
+  if (reference.startsWith('@')) {
+    return Object.hasOwn(profiles, reference.slice(1)) ? null : `unknown profile "${reference}"`;
+  }
+  try {
+    parseQuery(query, aliases);
+    return null;
+  } catch (err) {
+    if (err instanceof QueryParseError) return err.message;
+    throw err;
+  }
+}
+
+/**
+ * Add or update a profile, `[profiles.<name>]`.
+ *
+ * Its query and fallback must parse with the aliases of this file and the
+ * layers below it, and a `@profile` reference must name a profile there.
+ */
+export async function setProfile(
+  name: string,
+  profile: Profile,
+  options?: ConfigWriterOptions
+): Promise<WriteResult> {
+  const configPath = getConfigPath(options);
+  const invalid = (message: string): WriteResult => ({
+    success: false,
+    path: configPath,
+    error: new ConfigError(`Invalid profile "${name}": ${message}`, ConfigErrorCode.INVALID_PROFILE),
+  });
+
+  if (!name || typeof name !== 'string') {
+    return invalid('name must be a non-empty string');
+  }
+  const result = ProfileSchema.safeParse(profile);
+  if (!result.success) {
+    return invalid(result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join(', '));
+  }
+
+  const target = await loadTarget(configPath);
+  if (target.error) return target.error;
+  const { file: existing, merged } = target;
+  const profiles = { ...merged?.profiles, [name]: result.data };
+  const aliases = merged?.aliases ?? {};
+  for (const query of [result.data.query, result.data.fallback]) {
+    const problem = query === undefined ? null : checkProfileQuery(query, aliases, profiles);
+    if (problem) return invalid(problem);
+  }
+
+  const edit: ConfigEdit = { path: ['profiles', name], value: result.data };
+  return writeEdits(configPath, existing, [edit], options);
+}
+
+/**
+ * Remove a profile.
+ */
+export async function removeProfile(
+  name: string,
+  options?: ConfigWriterOptions
+): Promise<WriteResult> {
+  const configPath = getConfigPath(options);
+  const existing = await loadExistingConfig(configPath);
+
+  if (!existing.config.profiles?.[name]) {
+    return {
+      success: false,
+      path: configPath,
+      error: new ConfigError(`Profile "${name}" not found.`, ConfigErrorCode.PROFILE_NOT_FOUND),
+    };
+  }
+
+  return writeEdits(configPath, existing, [{ path: ['profiles', name] }], options);
 }
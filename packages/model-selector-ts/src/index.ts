@@ -1,7 +1,5 @@
-import { loadConfig, getEnabledModels } from './config/loader.js';
-import { parseQuery } from './query/parser.js';
-import { matchModel, normalizeScore } from './query/matcher.js';
-import { Config, ModelConfig, Selection, SelectOptions } from './types.js';
+import { ModelRegistry } from './registry.js';
+import { Selection, SelectOptions } from './types.js';
 
 // Re-export types
 export type {
@@ -10,19 +8,48 @@ export type {
   Selection,
   SelectOptions,
   AttributeValue,
+  ScalarValue,
   ModelAttributes,
+  AttributeDeclaration,
+  AttributeDeclarations,
   Aliases,
   QueryCondition,
+  QueryNode,
+  QueryTerm,
+  QueryDirective,
   ParsedQuery,
+  GradedOptions,
+  ConditionScore,
+  ExplanationReason,
+  UnknownPolicy,
+  MatchDefaults,
+  Profile,
+  QueryWarning,
+  QueryWarningCode,
+  Provenance,
 } from './types.js';
+export { USER, HUGGINGFACE, DERIVED } from './types.js';
+
+// Selection and the in-memory registry
+export { rankModels } from './select.js';
+export { compileQuery, CompiledQuery } from './compile.js';
+export { ModelRegistry } from './registry.js';
+export type { RegistryEntry, RegistryModel, RegistrySelectOptions } from './registry.js';
 
 // Re-export query utilities
-export { parseQuery } from './query/parser.js';
-export { matchModel, normalizeScore } from './query/matcher.js';
-export type { MatchResult } from './query/matcher.js';
+export { parseQuery, formatQueryNode } from './query/parser.js';
+export { QueryParseError, QueryParseErrorCode } from './query/errors.js';
+export { matchModel, normalizeScore, directiveCredits } from './query/matcher.js';
+export type { MatchResult, MatchOptions } from './query/matcher.js';
+export { formatExplanation } from './query/explain.js';
+export { validateQuery } from './query/validate.js';
 
 // Config loader / store exports
-export { loadConfig, getEnabledModels } from './config/loader.js';
+export { loadConfig, loadConfigWithSources, getEnabledModels } from './config/loader.js';
+export type { ConfigLayerName, ConfigSources, ConfigWithSources } from './config/loader.js';
+export { applyAttributeDefaults } from './config/attributes.js';
+export { watchConfig, ConfigWatcher, diffConfigs } from './config/watcher.js';
+export type { ConfigChange, ConfigChangeEvent, WatchConfigOptions } from './config/watcher.js';
 
 // Config writer exports
 export {
@@ -34,78 +61,72 @@ export {
   setModelEnabled,
   setAlias,
   removeAlias,
+  setProfile,
+  removeProfile,
   getDefaultConfigPath,
   ensureConfigDirectory,
   validateModelConfig,
   validateConfig,
 } from './config/writer.js';
 
-export type { ConfigWriterOptions, WriteResult } from './config/writer.js';
+export type { ConfigWriterOptions, UpdateModelOptions, WriteResult } from './config/writer.js';
 export { ConfigError, ConfigErrorCode } from './config/errors.js';
 
-/**
- * Fold the top-level provider into the matchable attributes so `provider = ...`
- * queries work without the host duplicating the field in `attributes`.
- */
-function effectiveAttributes(config: ModelConfig): ModelConfig['attributes'] {
-  if (!config.provider || 'provider' in config.attributes) {
-    return config.attributes;
-  }
-  return { ...config.attributes, provider: config.provider };
-}
-
-/**
- * Rank enabled models in a config against a query, best (highest normalized
- * score) first. The sort is stable, so equal scores keep config order.
- *
- * Returns the host's own model ids wrapped in match metadata — no clients.
- */
-export function rankModels(query: string, config: Config): Selection[] {
-  const parsedQuery = parseQuery(query, config.aliases);
-  const enabledModels = getEnabledModels(config);
-
-  const ranked: Selection[] = enabledModels.map(({ name, config: modelConfig }) => {
-    const matchResult = matchModel(effectiveAttributes(modelConfig), parsedQuery);
-    return {
-      modelId: name,
-      config: modelConfig,
-      score: normalizeScore(matchResult),
-      matches: matchResult.matches,
-      exactMatch: matchResult.exactMatch,
-      matchedAttributes: matchResult.matchedAttributes,
-      missingAttributes: matchResult.missingAttributes,
-    };
-  });
+// Metadata store exports
+export {
+  InMemoryStore,
+  FileMetadataStore,
+  JSONMetadataStore,
+  TomlMetadataStore,
+  StoreError,
+} from './store/index.js';
+export type { MetadataStore } from './store/index.js';
 
-  // Stable sort by normalized score, descending.
-  ranked.sort((a, b) => b.score - a.score);
-  return ranked;
-}
+// HuggingFace sync exports
+export {
+  syncModels,
+  enrichModel,
+  fetchHfMetadata,
+  mapHfToFacts,
+  deriveAttributes,
+  deriveModel,
+  DEFAULT_PROFILE,
+  mergeAttributes,
+  SyncError,
+} from './sync/index.js';
+export type {
+  SyncOptions,
+  HfRawMetadata,
+  HfFetchFn,
+  DerivationProfile,
+  DeriveFn,
+  MergeOptions,
+  AttributeMergeResult,
+} from './sync/index.js';
 
 /**
  * Select the single best matching model for a query.
  *
  * Returns the host's model id + match metadata, or `null` when no model is
  * available (or, with `requireMatch`, when nothing matched). Client creation
- * stays the host's job.
+ * stays the host's job. `@name` selects with the config profile `name`.
+ * Loads the config files; use `ModelRegistry` for models held in code.
  *
  * @example
  * ```typescript
  * const sel = selectModel('fast, cheap, functions');
  * if (sel) const client = hostMakeClient(sel.modelId);
  * ```
+ *
+ * @throws ConfigError when a referenced profile is missing or its fallbacks loop
  */
 export function selectModel(query: string, options: SelectOptions = {}): Selection | null {
-  const config = loadConfig(options.configPath);
-  const ranked = rankModels(query, config);
-  const best = ranked[0];
-  if (!best) return null;
-  if (options.requireMatch && !best.matches) return null;
-  return best;
+  return ModelRegistry.load(options.configPath).select(query, options);
 }
 
 /**
  * Select multiple models ranked by query match, for fallback scenarios.
+ * `@name` selects with the config profile `name`.
  *
  * @example
  * ```typescript
@@ -113,13 +134,9 @@ export function selectModel(query: string, options: SelectOptions = {}): Selecti
  *   try { return await hostGenerate(sel.modelId, prompt); } catch { continue; }
  * }
  * ```
+ *
+ * @throws ConfigError when a referenced profile is missing or its fallbacks loop
  */
 export function selectModels(query: string, options: SelectOptions = {}): Selection[] {
-  const config = loadConfig(options.configPath);
-  let ranked = rankModels(query, config);
-  if (options.requireMatch) {
-    ranked = ranked.filter((r) => r.matches);
-  }
-  const count = options.count ?? ranked.length;
-  return ranked.slice(0, count);
+  return ModelRegistry.load(options.configPath).selectMany(query, options);
 }
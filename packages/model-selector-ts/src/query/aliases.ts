@@ -0,0 +1,66 @@
+import type { Aliases } from '../types.js';
+
+// An alias key: a name, optionally with parameters, e.g. "ctx(n)" or "between(lo, hi)".
+const ALIAS_KEY_RE =
+  /^\s*([a-z_][a-z0-9_]*)\s*(?:\(\s*([a-z_][a-z0-9_]*(?:\s*,\s*[a-z_][a-z0-9_]*)*)\s*\))?\s*$/i;
+// A parameter reference in an alias body: `$n`, or `${n}` when text follows.
+const PLACEHOLDER_RE = /\$(?:\{([a-z_][a-z0-9_]*)\}|([a-z_][a-z0-9_]*))/gi;
+
+/**
+ * An alias as used by the parser: `ctx(n) = "context_window >= $n"` has name
+ * `ctx`, params `['n']` and body `context_window >= $n`.
+ */
+export interface AliasDefinition {
+  name: string;
+  /** Parameter names; empty for a plain alias. */
+  params: string[];
+  body: string;
+}
+
+/**
+ * Split an alias key into its name and parameters, or null if the key is not
+ * a valid alias name.
+ */
+export function parseAliasKey(key: string): { name: string; params: string[] } | null {
+  const match = ALIAS_KEY_RE.exec(key);
+  if (!match) return null;
+  const params = match[2] ? match[2].split(',').map((param) => param.trim()) : [];
+  return { name: match[1]!, params };
+}
+
+// A call to one of these is always an optimization directive, e.g. "max(cost)".
+const DIRECTIVE_NAMES = new Set(['min', 'max']);
+
+/**
+ * Why an alias with parameters named `min` or `max` could never be called, or
+ * null when the alias is callable: `max(cost)` always parses as a directive.
+ */
+export function aliasDirectiveConflict(key: { name: string; params: string[] }): string | null {
+  const name = key.name.toLowerCase();
+  if (key.params.length === 0 || !DIRECTIVE_NAMES.has(name)) return null;
+  return `"${key.name}(...)" always parses as the ${name}() directive; choose another name`;
+}
+
+/**
+ * Index aliases by name. Keys that aren't valid alias names are skipped; the
+ * config schema reports them.
+ */
+export function defineAliases(aliases: Aliases): Map<string, AliasDefinition> {
+  const definitions = new Map<string, AliasDefinition>();
+  for (const [key, body] of Object.entries(aliases)) {
+    const parsed = parseAliasKey(key);
+    if (parsed) definitions.set(parsed.name, { ...parsed, body });
+  }
+  return definitions;
+}
+
+/**
+ * The alias body with each `$param` replaced by the matching argument text.
+ * References to names that aren't parameters are left as written.
+ */
+export function substituteAliasArgs(definition: AliasDefinition, args: string[]): string {
+  return definition.body.replace(PLACEHOLDER_RE, (placeholder, braced?: string, bare?: string) => {
+    const index = definition.params.indexOf((braced ?? bare)!);
+    return index === -1 ? placeholder : args[index]!;
+  });
+}
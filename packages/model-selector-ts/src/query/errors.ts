@@ -0,0 +1,37 @@
+/**
+ * Error codes for query parsing.
+ */
+export enum QueryParseErrorCode {
+  EMPTY_QUERY = 'EMPTY_QUERY',
+  EXPECTED_CONDITION = 'EXPECTED_CONDITION',
+  MISSING_VALUE = 'MISSING_VALUE',
+  INVALID_VALUE = 'INVALID_VALUE',
+  INVALID_PATTERN = 'INVALID_PATTERN',
+  UNTERMINATED_STRING = 'UNTERMINATED_STRING',
+  UNBALANCED_PARENS = 'UNBALANCED_PARENS',
+  UNEXPECTED_TOKEN = 'UNEXPECTED_TOKEN',
+  MISPLACED_DIRECTIVE = 'MISPLACED_DIRECTIVE',
+  INVALID_ALIAS = 'INVALID_ALIAS',
+  ALIAS_CYCLE = 'ALIAS_CYCLE',
+}
+
+/**
+ * Error class for query parsing.
+ *
+ * `start`/`end` are character offsets into the query as written, before alias
+ * expansion, so an editor can underline `query.slice(start, end)`. A problem
+ * inside an alias body is reported at the alias reference (`INVALID_ALIAS`).
+ */
+export class QueryParseError extends Error {
+  constructor(
+    message: string,
+    public readonly code: QueryParseErrorCode,
+    /** The offending text; empty when the query ended too early. */
+    public readonly token: string,
+    public readonly start: number,
+    public readonly end: number
+  ) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
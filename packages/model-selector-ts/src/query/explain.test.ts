@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { formatExplanation } from './explain.js';
+import { matchModel, normalizeScore } from './matcher.js';
+import { parseQuery } from './parser.js';
+import type { MatchOptions } from './matcher.js';
+import type { ModelAttributes } from '../types.js';
+
+const gpt4: ModelAttributes = { cost: 8, functions: true, provider: 'openai' };
+
+function explain(query: string, attributes: ModelAttributes, options: MatchOptions = {}): string {
+  const result = matchModel(attributes, parseQuery(query), options);
+  return formatExplanation({
+    modelId: 'gpt4',
+    score: normalizeScore(result),
+    explanation: result.conditionScores,
+  });
+}
+
+describe('formatExplanation', () => {
+  it('renders a header and one line per condition', () => {
+    expect(explain('functions, cost <= 3, reasoning', gpt4)).toBe(
+      [
+        'gpt4  score=0.50',
+        '  PASS  functions  actual=true  +3',
+        '  FAIL  cost <= 3  actual=8  comparison false  +0',
+        '  FAIL  reasoning  actual=(none)  missing attribute  +0',
+      ].join('\n')
+    );
+  });
+
+  it('marks hard constraints and grouped conditions', () => {
+    expect(explain('+provider = openai, (local | functions)', gpt4)).toBe(
+      [
+        'gpt4  score=1.00',
+        '  PASS  provider = openai  actual=openai  required',
+        '  FAIL  local  actual=(none)  missing attribute  in local | functions  +0.50',
+        '  PASS  functions  actual=true  in local | functions  +0.50',
+      ].join('\n')
+    );
+  });
+
+  it('shows large numbers with unit suffixes', () => {
+    expect(explain('context_window >= 128k', { context_window: 131_072 })).toBe(
+      ['gpt4  score=1.00', '  PASS  context_window >= 128k  actual=131.1k  +1'].join('\n')
+    );
+  });
+
+  it('marks conditions left out under the neutral unknown policy', () => {
+    expect(explain('functions, reasoning', gpt4, { unknown: 'neutral' })).toBe(
+      [
+        'gpt4  score=1.00',
+        '  PASS  functions  actual=true  +2',
+        '  SKIP  reasoning  actual=(none)  missing attribute, excluded  +0',
+      ].join('\n')
+    );
+  });
+});
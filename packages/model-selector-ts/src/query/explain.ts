@@ -0,0 +1,50 @@
+import { ConditionScore, Selection } from '../types.js';
+import { formatQueryNode, formatValue } from './parser.js';
+
+const REASON_TEXT: Record<ConditionScore['reason'], string> = {
+  passed: 'passed',
+  missing_attribute: 'missing attribute',
+  type_mismatch: 'type mismatch',
+  comparison_false: 'comparison false',
+  excluded: 'missing attribute, excluded',
+};
+
+function formatNumber(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
+
+/**
+ * Render one condition's outcome as a single line, e.g.
+ * `FAIL  cost <= 3  actual=8  comparison false  +0`. Numbers are shown in
+ * human form: `context_window >= 128k  actual=131.1k`.
+ */
+function formatEntry(entry: ConditionScore): string {
+  const status = entry.passed ? 'PASS' : entry.reason === 'excluded' ? 'SKIP' : 'FAIL';
+  const condition = formatQueryNode({ type: 'condition', condition: entry.condition }, true);
+  const actual = entry.actual === undefined ? '(none)' : formatValue(entry.actual, true);
+  const parts = [status, condition, `actual=${actual}`];
+  if (!entry.passed) parts.push(REASON_TEXT[entry.reason]);
+  if (entry.group !== undefined) parts.push(`in ${entry.group}`);
+  parts.push(entry.required ? 'required' : `+${formatNumber(entry.contributed)}`);
+  return parts.join('  ');
+}
+
+/**
+ * Format a selection's per-condition explanation for logs: a header with the
+ * model id and score, then one line per condition.
+ *
+ * @example
+ * ```typescript
+ * const sel = selectModel('cheap, functions');
+ * if (sel) logger.debug(formatExplanation(sel));
+ * // gpt4mini  score=1.00
+ * //   PASS  cost <= 3  actual=2  +2
+ * //   PASS  functions  actual=true  +1
+ * ```
+ */
+export function formatExplanation(
+  selection: Pick<Selection, 'modelId' | 'score' | 'explanation'>
+): string {
+  const header = `${selection.modelId}  score=${selection.score.toFixed(2)}`;
+  return [header, ...selection.explanation.map((entry) => `  ${formatEntry(entry)}`)].join('\n');
+}
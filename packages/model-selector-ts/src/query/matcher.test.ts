@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { matchModel, normalizeScore } from './matcher.js';
+import { directiveCredits, matchModel, normalizeScore } from './matcher.js';
 import { parseQuery } from './parser.js';
 import { ModelAttributes } from '../types.js';
 
@@ -205,6 +205,298 @@ describe('matchModel', () => {
       expect(matchModel(gpt4, query).exactMatch).toBe(true);
       expect(matchModel(llama3, query).exactMatch).toBe(true);
     });
+
+    it('compares a unit-like value as text with string attributes', () => {
+      const small = { variant: '7b', params: 7e9 };
+      const queries = ['variant = 7b', 'variant in [7b, 70b]', 'params = 7b', 'params in [7b]'];
+      for (const query of queries) {
+        expect(matchModel(small, parseQuery(query)).exactMatch).toBe(true);
+      }
+      const miss = matchModel({ variant: '70b' }, parseQuery('variant = 7b'));
+      expect(miss.conditionScores[0]?.reason).toBe('comparison_false');
+      expect(matchModel(small, parseQuery('variant != 7b')).exactMatch).toBe(false);
+    });
+  });
+
+  describe('list operators', () => {
+    const quantized: ModelAttributes = { tags: ['fp8', 'chat'], modality: ['text', 'image'], bits: 8 };
+
+    it('matches contains against a list attribute', () => {
+      expect(matchModel(quantized, parseQuery('tags contains fp8')).exactMatch).toBe(true);
+      expect(matchModel(quantized, parseQuery('tags contains gguf')).exactMatch).toBe(false);
+      expect(matchModel(quantized, parseQuery('!tags contains gguf')).exactMatch).toBe(true);
+    });
+
+    it('matches a scalar attribute in a list of values', () => {
+      expect(matchModel(gpt4, parseQuery('provider in [openai, anthropic]')).exactMatch).toBe(true);
+      expect(matchModel(llama3, parseQuery('provider in [openai, anthropic]')).exactMatch).toBe(false);
+      expect(matchModel(quantized, parseQuery('bits in [4, 8]')).exactMatch).toBe(true);
+    });
+
+    it('matches a list attribute that shares a value with the list', () => {
+      expect(matchModel(quantized, parseQuery('modality in [audio, image]')).exactMatch).toBe(true);
+      expect(matchModel(quantized, parseQuery('modality not in [audio, video]')).exactMatch).toBe(true);
+      expect(matchModel(quantized, parseQuery('modality not in [text]')).exactMatch).toBe(false);
+    });
+
+    it('fails not in on a missing attribute like any other operator', () => {
+      expect(matchModel(gpt4, parseQuery('modality not in [audio]')).exactMatch).toBe(false);
+    });
+
+    it('explains contains on a non-list attribute as a type mismatch', () => {
+      const result = matchModel(gpt4, parseQuery('provider contains openai'));
+      expect(result.conditionScores[0]?.reason).toBe('type_mismatch');
+    });
+
+    it('gives list operators no graded credit', () => {
+      const result = matchModel(quantized, parseQuery('bits in [7]'), { graded: true });
+      expect(result.score).toBe(0);
+    });
+  });
+
+  describe('pattern operators', () => {
+    const qwen: ModelAttributes = {
+      architecture: 'qwen2',
+      license: 'Apache-2.0',
+      tags: ['fp8', 'chat'],
+    };
+
+    it('matches globs against the whole value', () => {
+      expect(matchModel(qwen, parseQuery('architecture ~ qwen*')).exactMatch).toBe(true);
+      expect(matchModel(qwen, parseQuery('architecture ~ qwen?')).exactMatch).toBe(true);
+      expect(matchModel(qwen, parseQuery('architecture ~ wen*')).exactMatch).toBe(false);
+    });
+
+    it('ignores case with ~* and regex flags', () => {
+      expect(matchModel(qwen, parseQuery('license ~ apache*')).exactMatch).toBe(false);
+      expect(matchModel(qwen, parseQuery('license ~* apache*')).exactMatch).toBe(true);
+      expect(matchModel(qwen, parseQuery('license =~ /apache|mit/')).exactMatch).toBe(false);
+      expect(matchModel(qwen, parseQuery('license =~ /apache|mit/i')).exactMatch).toBe(true);
+    });
+
+    it('matches any string in a list attribute', () => {
+      expect(matchModel(qwen, parseQuery('tags ~ fp*')).exactMatch).toBe(true);
+      expect(matchModel(qwen, parseQuery('!tags =~ ^gguf')).exactMatch).toBe(true);
+    });
+
+    it('compiles the pattern for a hand-built condition', () => {
+      const query = parseQuery('local');
+      query.terms[0]!.node = {
+        type: 'condition',
+        condition: {
+          attribute: 'architecture',
+          operator: '~',
+          value: 'qwen*',
+          negated: false,
+          weight: 1,
+        },
+      };
+      expect(matchModel(qwen, query).exactMatch).toBe(true);
+    });
+
+    it('explains a pattern on a non-string attribute as a type mismatch', () => {
+      const result = matchModel(gpt4, parseQuery('cost ~ 8*'));
+      expect(result.conditionScores[0]?.reason).toBe('type_mismatch');
+    });
+  });
+
+  describe('boolean expressions', () => {
+    it('matches either side of an OR', () => {
+      const query = parseQuery('provider = openai | provider = ollama');
+      expect(matchModel(gpt4, query).exactMatch).toBe(true);
+      expect(matchModel(llama3, query).exactMatch).toBe(true);
+      expect(matchModel({ provider: 'google' }, query).exactMatch).toBe(false);
+    });
+
+    it('scores a group as one weighted term', () => {
+      const query = parseQuery('(local | cost <= 2), functions');
+      const result = matchModel(gpt4mini, query);
+      expect(result.score).toBe(3);
+      expect(result.matchedAttributes).toEqual(['local | cost <= 2', 'functions']);
+    });
+
+    it('requires every member of a parenthesized AND', () => {
+      const query = parseQuery('(functions, cost <= 2) | local');
+      expect(matchModel(gpt4mini, query).exactMatch).toBe(true);
+      expect(matchModel(gpt4, query).exactMatch).toBe(false);
+      expect(matchModel(llama3, query).exactMatch).toBe(true);
+    });
+
+    it('negates a group', () => {
+      const query = parseQuery('!(local | cost > 5)');
+      expect(matchModel(gpt4mini, query).exactMatch).toBe(true);
+      expect(matchModel(gpt4, query).exactMatch).toBe(false);
+      expect(matchModel(llama3, query).exactMatch).toBe(false);
+    });
+
+    it('negates a comparison alias', () => {
+      const query = parseQuery('!pricey', { pricey: 'cost > 5' });
+      expect(matchModel(gpt4mini, query).exactMatch).toBe(true);
+      expect(matchModel(gpt4, query).exactMatch).toBe(false);
+    });
+  });
+
+  describe('hard constraints', () => {
+    it('eliminates a model failing a + term regardless of soft matches', () => {
+      const query = parseQuery('+local, functions, speed >= 5');
+      const result = matchModel(gpt4, query);
+      expect(result.eligible).toBe(false);
+      expect(result.matches).toBe(false);
+      expect(result.exactMatch).toBe(false);
+      expect(result.failedConstraints).toEqual(['local']);
+    });
+
+    it('scores only soft terms for eligible models', () => {
+      const query = parseQuery('+local, functions, speed >= 5');
+      const result = matchModel(llama3, query);
+      expect(result.eligible).toBe(true);
+      expect(result.score).toBe(1);
+      expect(result.maxScore).toBe(3);
+      expect(result.matchedAttributes).toEqual(['speed']);
+    });
+
+    it('treats a query of only hard constraints as a match', () => {
+      const result = matchModel(llama3, parseQuery('+local, +provider != openai'));
+      expect(result.matches).toBe(true);
+      expect(result.exactMatch).toBe(true);
+    });
+
+    it('treats a missing attribute as failing a hard constraint', () => {
+      expect(matchModel(gpt4, parseQuery('+license != proprietary')).eligible).toBe(false);
+    });
+  });
+
+  describe('graded scoring', () => {
+    it('is off by default', () => {
+      const result = matchModel({ speed: 6.9 }, parseQuery('speed >= 7'));
+      expect(result.score).toBe(0);
+      expect(result.conditionScores[0]).toMatchObject({ passed: false, credit: 0 });
+    });
+
+    it('ranks a near miss above a far miss', () => {
+      const query = parseQuery('speed >= 7');
+      const near = matchModel({ speed: 6.9 }, query, { graded: true });
+      const far = matchModel({ speed: 1 }, query, { graded: true });
+      expect(near.score).toBeCloseTo(1 - 0.1 / 7 / 0.5, 10);
+      expect(far.score).toBe(0);
+      expect(near.exactMatch).toBe(false);
+      expect(near.missingAttributes).toEqual(['speed']);
+    });
+
+    it('caps a miss at the threshold below full credit', () => {
+      const result = matchModel({ cost: 5 }, parseQuery('cost > 5'), { graded: true });
+      expect(result.score).toBeGreaterThan(0.9);
+      expect(result.score).toBeLessThan(1);
+    });
+
+    it('honours a configurable falloff', () => {
+      const query = parseQuery('context_window >= 100000');
+      const wide = matchModel({ context_window: 50000 }, query, { graded: { falloff: 1 } });
+      const narrow = matchModel({ context_window: 50000 }, query, {
+        graded: { falloff: 1, attributeFalloff: { context_window: 0.25 } },
+      });
+      expect(wide.score).toBeCloseTo(0.5, 10);
+      expect(narrow.score).toBe(0);
+    });
+
+    it('grades negated comparisons by their equivalent operator', () => {
+      const result = matchModel({ cost: 6 }, parseQuery('!cost > 5'), { graded: true });
+      expect(result.score).toBeCloseTo(1 - 1 / 5 / 0.5, 10);
+    });
+
+    it('gives non-numeric conditions no partial credit', () => {
+      const query = parseQuery('provider = openai, functions');
+      expect(matchModel(llama3, query, { graded: true }).score).toBe(0);
+    });
+
+    it('takes the weakest child of an AND and the strongest of an OR', () => {
+      const attrs = { speed: 6, cost: 1 };
+      const and = matchModel(attrs, parseQuery('(speed >= 8, cost <= 2)'), { graded: true });
+      const or = matchModel(attrs, parseQuery('speed >= 8 | cost <= 0.5'), { graded: true });
+      expect(and.score).toBeCloseTo(0.5, 10);
+      expect(or.score).toBeCloseTo(0.5, 10);
+    });
+
+    it('reports a score per condition', () => {
+      const result = matchModel(gpt4, parseQuery('cost <= 6, functions'), { graded: true });
+      expect(result.conditionScores.map((c) => [c.condition.attribute, c.passed])).toEqual([
+        ['cost', false],
+        ['functions', true],
+      ]);
+      expect(result.conditionScores[0]?.credit).toBeCloseTo(1 - 2 / 6 / 0.5, 10);
+    });
+
+    it('does not match on partial credit alone', () => {
+      const query = parseQuery('speed >= 7, cost <= 2');
+      const result = matchModel({ speed: 6.9, cost: 2.1 }, query, { graded: true });
+      expect(result.score).toBeGreaterThan(1);
+      expect(result.matches).toBe(false);
+      expect(result.matchedAttributes).toEqual([]);
+      expect(matchModel({ speed: 7, cost: 2.1 }, query, { graded: true }).matches).toBe(true);
+    });
+
+    it('keeps hard constraints pass/fail', () => {
+      const result = matchModel({ speed: 6.9 }, parseQuery('+speed >= 7'), { graded: true });
+      expect(result.eligible).toBe(false);
+    });
+  });
+
+  describe('condition explanations', () => {
+    it('keeps two conditions on the same attribute apart', () => {
+      const result = matchModel(gpt4, parseQuery('cost >= 5, cost <= 6'));
+      expect(result.conditionScores.map((c) => [c.condition.operator, c.passed])).toEqual([
+        ['>=', true],
+        ['<=', false],
+      ]);
+    });
+
+    it('records the actual value and why a condition failed', () => {
+      const result = matchModel(gpt4, parseQuery('reasoning, provider >= 3, cost <= 3, functions'));
+      expect(result.conditionScores.map((c) => [c.actual, c.reason])).toEqual([
+        [undefined, 'missing_attribute'],
+        ['openai', 'type_mismatch'],
+        [8, 'comparison_false'],
+        [true, 'passed'],
+      ]);
+    });
+
+    it('flags equality across types as a type mismatch', () => {
+      const result = matchModel({ cost: 3 }, parseQuery('cost = "3"'));
+      expect(result.conditionScores[0]?.reason).toBe('type_mismatch');
+    });
+
+    it('reports the weight each condition contributed', () => {
+      const result = matchModel(gpt4mini, parseQuery('+functions, cost <= 3, (local | speed >= 8)'));
+      expect(result.conditionScores.map((c) => [c.required, c.contributed, c.group])).toEqual([
+        [true, 0, undefined],
+        [false, 2, undefined],
+        [false, 0.5, 'local | speed >= 8'],
+        [false, 0.5, 'local | speed >= 8'],
+      ]);
+      const total = result.conditionScores.reduce((sum, c) => sum + c.contributed, 0);
+      expect(total).toBe(result.score);
+    });
+  });
+
+  describe('directiveCredits', () => {
+    const models = [gpt4, gpt4mini, llama3, { provider: 'none' }];
+
+    it('scores min directives from cheapest (1) to priciest (0)', () => {
+      expect(directiveCredits({ kind: 'min', attribute: 'cost', weight: 1 }, models)).toEqual([
+        0, 0.75, 1, 0,
+      ]);
+    });
+
+    it('scores max directives from highest (1) to lowest (0)', () => {
+      expect(directiveCredits({ kind: 'max', attribute: 'speed', weight: 1 }, models)).toEqual([
+        0, 1, 1 / 3, 0,
+      ]);
+    });
+
+    it('gives every candidate full credit on a tie', () => {
+      expect(directiveCredits({ kind: 'max', attribute: 'context_window', weight: 1 }, [gpt4, gpt4mini]))
+        .toEqual([1, 1]);
+    });
   });
 
   describe('missing attributes', () => {
@@ -221,4 +513,46 @@ describe('matchModel', () => {
       expect(matchModel(gpt4, query).exactMatch).toBe(true);
     });
   });
+
+  describe('defaults and unknown policy', () => {
+    const query = parseQuery('functions, reasoning');
+
+    it('fills missing attributes from defaults', () => {
+      const result = matchModel(gpt4, query, { defaults: { reasoning: true, functions: false } });
+      expect(result.exactMatch).toBe(true);
+      expect(result.conditionScores[1]?.actual).toBe(true);
+    });
+
+    it('passes conditions on missing attributes with unknown: pass', () => {
+      const result = matchModel(gpt4, query, { unknown: 'pass' });
+      expect(result.exactMatch).toBe(true);
+      expect(result.score).toBe(3);
+      // Negation does not flip an unknown.
+      expect(matchModel(gpt4, parseQuery('!reasoning'), { unknown: 'pass' }).exactMatch).toBe(true);
+    });
+
+    it('leaves missing attributes out of the score with unknown: neutral', () => {
+      const result = matchModel(gpt4, query, { unknown: 'neutral' });
+      expect(result.score).toBe(2);
+      expect(result.maxScore).toBe(2);
+      expect(normalizeScore(result)).toBe(1);
+      expect(result.matchedAttributes).toEqual(['functions']);
+      expect(result.missingAttributes).toEqual([]);
+      expect(result.conditionScores[1]).toMatchObject({ passed: false, reason: 'excluded' });
+    });
+
+    it('judges a group by its known conditions under neutral', () => {
+      const grouped = parseQuery('(reasoning, cost <= 3), local | vision');
+      const result = matchModel(gpt4mini, grouped, { unknown: 'neutral' });
+      expect(result.score).toBe(2);
+      expect(result.maxScore).toBe(3);
+      expect(result.missingAttributes).toEqual(['local | vision']);
+    });
+
+    it('never eliminates on a neutral hard constraint', () => {
+      const result = matchModel(gpt4, parseQuery('+reasoning, functions'), { unknown: 'neutral' });
+      expect(result.eligible).toBe(true);
+      expect(matchModel(gpt4, parseQuery('+reasoning, functions')).eligible).toBe(false);
+    });
+  });
 });
@@ -1,10 +1,77 @@
 import {
   AttributeValue,
   ComparisonOperator,
+  ConditionScore,
+  ExplanationReason,
+  GradedOptions,
   ModelAttributes,
   QueryCondition,
+  QueryDirective,
+  QueryNode,
   ParsedQuery,
+  ScalarValue,
+  UnknownPolicy,
 } from '../types.js';
+import { compilePattern, formatQueryNode } from './parser.js';
+
+const DEFAULT_FALLOFF = 0.5;
+// A failed condition never earns full credit, so it can't tie a true match:
+// `cost > 5` fails at exactly 5 with distance 0.
+const MAX_MISS_CREDIT = 0.99;
+
+// The operator a negated numeric condition is equivalent to.
+const NEGATED_OPERATOR: Partial<Record<ComparisonOperator, ComparisonOperator>> = {
+  '=': '!=',
+  '!=': '=',
+  '>': '<=',
+  '>=': '<',
+  '<': '>=',
+  '<=': '>',
+};
+
+export interface MatchOptions {
+  /** Give near-miss numeric conditions partial credit. Default: false */
+  graded?: boolean | GradedOptions;
+  /** Values assumed for attributes the model doesn't have. */
+  defaults?: ModelAttributes;
+  /** Scoring for attributes still missing after `defaults`. Default: 'fail' */
+  unknown?: UnknownPolicy;
+}
+
+const ORDERING_OPERATORS: ReadonlySet<ComparisonOperator> = new Set(['>', '>=', '<', '<=']);
+// Operators that can earn graded partial credit.
+const GRADED_OPERATORS: ReadonlySet<ComparisonOperator> = new Set(['=', ...ORDERING_OPERATORS]);
+
+const PATTERN_OPERATORS: ReadonlySet<ComparisonOperator> = new Set(['~', '~*', '=~']);
+
+/**
+ * Pattern match: a string attribute, or any string in a list attribute.
+ */
+function matchesPattern(attrValue: AttributeValue, condition: QueryCondition): boolean {
+  const pattern =
+    condition.pattern ?? compilePattern(condition.operator, String(condition.value));
+  const values = Array.isArray(attrValue) ? attrValue : [attrValue];
+  return values.some((v) => typeof v === 'string' && pattern.test(v));
+}
+
+/**
+ * `in`: a scalar attribute is one of the values; a list attribute shares one.
+ */
+function isIn(attrValue: AttributeValue, values: AttributeValue): boolean {
+  if (!Array.isArray(values)) return false;
+  const attrValues = Array.isArray(attrValue) ? attrValue : [attrValue];
+  return attrValues.some((v) => values.includes(v));
+}
+
+/**
+ * The value a condition compares an attribute value with: for `variant = 7b`,
+ * the number 7e9 against a numeric attribute and the text "7b" otherwise.
+ */
+function operand(condition: QueryCondition, attrValue: AttributeValue): AttributeValue {
+  if (condition.numericValue === undefined) return condition.value;
+  const values = Array.isArray(attrValue) ? attrValue : [attrValue];
+  return values.some((v) => typeof v === 'number') ? condition.numericValue : condition.value;
+}
 
 /**
  * Check if a single condition matches against model attributes.
@@ -21,13 +88,14 @@ function evaluateCondition(
   }
 
   let result: boolean;
+  const value = operand(condition, attrValue);
 
   switch (condition.operator) {
     case '=':
-      result = attrValue === condition.value;
+      result = attrValue === value;
       break;
     case '!=':
-      result = attrValue !== condition.value;
+      result = attrValue !== value;
       break;
     case '>':
       result = typeof attrValue === 'number' && typeof condition.value === 'number'
@@ -49,6 +117,20 @@ function evaluateCondition(
         ? attrValue <= condition.value
         : false;
       break;
+    case 'contains':
+      result = Array.isArray(attrValue) && attrValue.includes(condition.value as ScalarValue);
+      break;
+    case 'in':
+      result = isIn(attrValue, value);
+      break;
+    case 'not in':
+      result = !isIn(attrValue, value);
+      break;
+    case '~':
+    case '~*':
+    case '=~':
+      result = matchesPattern(attrValue, condition);
+      break;
     default:
       result = false;
   }
@@ -56,51 +138,282 @@ function evaluateCondition(
   return condition.negated ? !result : result;
 }
 
+/**
+ * Outcome of a condition under the unknown policy: null when the attribute is
+ * missing and the policy is `neutral`.
+ */
+function conditionOutcome(
+  condition: QueryCondition,
+  attributes: ModelAttributes,
+  unknown: UnknownPolicy
+): boolean | null {
+  if (unknown !== 'fail' && attributes[condition.attribute] === undefined) {
+    return unknown === 'pass' ? true : null;
+  }
+  return evaluateCondition(condition, attributes);
+}
+
+/**
+ * Explain why a condition failed.
+ */
+function failureReason(condition: QueryCondition, attributes: ModelAttributes): ExplanationReason {
+  const attrValue = attributes[condition.attribute];
+  if (attrValue === undefined) return 'missing_attribute';
+  if (condition.operator === 'contains') {
+    if (!Array.isArray(attrValue)) return 'type_mismatch';
+  } else if (PATTERN_OPERATORS.has(condition.operator)) {
+    const values = Array.isArray(attrValue) ? attrValue : [attrValue];
+    if (!values.some((v) => typeof v === 'string')) return 'type_mismatch';
+  } else if (condition.operator === 'in' || condition.operator === 'not in') {
+    // A list of values can hold any type; there is nothing to mismatch.
+  } else if (ORDERING_OPERATORS.has(condition.operator)) {
+    if (typeof attrValue !== 'number' || typeof condition.value !== 'number') return 'type_mismatch';
+  } else if (typeof attrValue !== typeof operand(condition, attrValue)) {
+    return 'type_mismatch';
+  }
+  return 'comparison_false';
+}
+
+function resolveGrading(graded: MatchOptions['graded']): GradedOptions | null {
+  if (!graded) return null;
+  return graded === true ? {} : graded;
+}
+
+/**
+ * Partial credit for a failed numeric condition, by relative distance to the
+ * threshold, capped below 1. Non-numeric and `!=` conditions get none.
+ */
+function gradedCredit(
+  condition: QueryCondition,
+  attributes: ModelAttributes,
+  grading: GradedOptions
+): number {
+  const attrValue = attributes[condition.attribute];
+  const value = attrValue === undefined ? condition.value : operand(condition, attrValue);
+  if (typeof attrValue !== 'number' || typeof value !== 'number') return 0;
+  const operator = condition.negated ? NEGATED_OPERATOR[condition.operator] : condition.operator;
+  if (!operator || !GRADED_OPERATORS.has(operator)) return 0;
+
+  const falloff =
+    grading.attributeFalloff?.[condition.attribute] ?? grading.falloff ?? DEFAULT_FALLOFF;
+  if (falloff <= 0) return 0;
+  const relative = Math.abs(attrValue - value) / Math.max(Math.abs(value), 1);
+  return Math.min(MAX_MISS_CREDIT, Math.max(0, 1 - relative / falloff));
+}
+
+/**
+ * Credit for a node in [0, 1]: AND takes the weakest child, OR the strongest.
+ * A NOT is pass/fail. Leaf outcomes are appended to `scores`. Null when every
+ * condition under the node is neutral (see `evaluateNode`).
+ */
+function nodeCredit(
+  node: QueryNode,
+  attributes: ModelAttributes,
+  grading: GradedOptions | null,
+  unknown: UnknownPolicy,
+  scores: ConditionScore[]
+): number | null {
+  switch (node.type) {
+    case 'condition': {
+      const { condition } = node;
+      const outcome = conditionOutcome(condition, attributes, unknown);
+      const passed = outcome === true;
+      const credit = passed ? 1 : grading ? gradedCredit(condition, attributes, grading) : 0;
+      let reason: ExplanationReason = 'passed';
+      if (outcome === null) reason = 'excluded';
+      else if (!passed) reason = failureReason(condition, attributes);
+      scores.push({
+        condition,
+        actual: attributes[condition.attribute],
+        passed,
+        reason,
+        credit,
+        required: false,
+        contributed: 0,
+      });
+      return outcome === null ? null : credit;
+    }
+    case 'not': {
+      nodeCredit(node.child, attributes, grading, unknown, scores);
+      const outcome = evaluateNode(node, attributes, unknown);
+      return outcome === null ? null : outcome ? 1 : 0;
+    }
+    case 'and':
+    case 'or': {
+      const credits = node.children
+        .map((c) => nodeCredit(c, attributes, grading, unknown, scores))
+        .filter((c): c is number => c !== null);
+      if (credits.length === 0) return null;
+      return node.type === 'and' ? Math.min(...credits) : Math.max(...credits);
+    }
+  }
+}
+
+/**
+ * Evaluate a boolean expression against model attributes. Neutral conditions
+ * (null) drop out of an AND or OR; a node with nothing else left is neutral.
+ */
+function evaluateNode(
+  node: QueryNode,
+  attributes: ModelAttributes,
+  unknown: UnknownPolicy
+): boolean | null {
+  switch (node.type) {
+    case 'condition':
+      return conditionOutcome(node.condition, attributes, unknown);
+    case 'not': {
+      const outcome = evaluateNode(node.child, attributes, unknown);
+      return outcome === null ? null : !outcome;
+    }
+    case 'and':
+    case 'or': {
+      const outcomes = node.children
+        .map((child) => evaluateNode(child, attributes, unknown))
+        .filter((o): o is boolean => o !== null);
+      if (outcomes.length === 0) return null;
+      return node.type === 'and' ? outcomes.every(Boolean) : outcomes.some(Boolean);
+    }
+  }
+}
+
+/**
+ * Label a term for matched/missing lists: the attribute for a single
+ * condition, the rendered expression for a group.
+ */
+function termLabel(node: QueryNode): string {
+  return node.type === 'condition' ? node.condition.attribute : formatQueryNode(node);
+}
+
 export interface MatchResult {
+  /** Every hard (`+`) constraint holds. Ineligible models are never selected. */
+  eligible: boolean;
   matches: boolean;
   score: number;
   maxScore: number;
   exactMatch: boolean;
   matchedAttributes: string[];
   missingAttributes: string[];
+  /** Hard constraints the model failed, labelled like `missingAttributes`. */
+  failedConstraints: string[];
+  /** Outcome of every leaf condition, in query order. */
+  conditionScores: ConditionScore[];
 }
 
 /**
  * Match a model's attributes against a parsed query.
  * Returns a score and match details.
+ *
+ * With `options.graded`, a failing soft term still adds `weight * credit` to
+ * the score, so near misses outrank far misses. It stays in
+ * `missingAttributes`, the match is not exact, and credit alone never makes a
+ * model match.
+ *
+ * `options.defaults` fills in attributes the model lacks. Conditions on
+ * attributes that are still missing fail by default; `unknown: 'pass'` passes
+ * them, and `unknown: 'neutral'` leaves them out: a term with only such
+ * conditions adds nothing to the score or max score, and never eliminates.
  */
 export function matchModel(
   attributes: ModelAttributes,
-  query: ParsedQuery
+  query: ParsedQuery,
+  options: MatchOptions = {}
 ): MatchResult {
+  if (options.defaults) attributes = { ...options.defaults, ...attributes };
+  const unknown = options.unknown ?? 'fail';
+  const grading = resolveGrading(options.graded);
+  const conditionScores: ConditionScore[] = [];
   const matchedAttributes: string[] = [];
   const missingAttributes: string[] = [];
+  const failedConstraints: string[] = [];
   let score = 0;
   let maxScore = 0;
+  // Score from fully passing soft terms; partial credit only ranks.
+  let passedScore = 0;
+  let softTerms = 0;
+  let allPassed = true;
 
-  for (const condition of query.conditions) {
-    maxScore += condition.weight;
+  for (const term of query.terms) {
+    // Hard constraints are always pass/fail.
+    const firstLeaf = conditionScores.length;
+    const grade = term.required ? null : grading;
+    const credit = nodeCredit(term.node, attributes, grade, unknown, conditionScores);
+    const passed = evaluateNode(term.node, attributes, unknown);
 
-    if (evaluateCondition(condition, attributes)) {
-      score += condition.weight;
-      matchedAttributes.push(condition.attribute);
+    const leaves = conditionScores.slice(firstLeaf);
+    const group = term.node.type === 'condition' ? undefined : formatQueryNode(term.node);
+    for (const leaf of leaves) {
+      if (group !== undefined) leaf.group = group;
+      leaf.required = term.required;
+      leaf.contributed = term.required ? 0 : (term.weight * (credit ?? 0)) / leaves.length;
+    }
+
+    if (term.required) {
+      if (passed === false) {
+        failedConstraints.push(termLabel(term.node));
+      }
+      continue;
+    }
+    // Neutral: nothing known to judge the term by.
+    if (credit === null) continue;
+
+    softTerms++;
+    maxScore += term.weight;
+    score += term.weight * credit;
+
+    if (passed) {
+      passedScore += term.weight;
+      matchedAttributes.push(termLabel(term.node));
     } else {
-      missingAttributes.push(condition.attribute);
+      allPassed = false;
+      missingAttributes.push(termLabel(term.node));
     }
   }
 
-  const exactMatch = score === maxScore;
+  const eligible = failedConstraints.length === 0;
+  const exactMatch = eligible && allPassed;
 
   return {
-    matches: score > 0, // At least one condition matched
+    eligible,
+    // At least one soft condition matched (or only hard constraints were given)
+    matches: eligible && (passedScore > 0 || softTerms === 0),
     score,
     maxScore,
     exactMatch,
     matchedAttributes,
     missingAttributes,
+    failedConstraints,
+    conditionScores,
   };
 }
 
+/**
+ * Score an optimization directive across a candidate set, in candidate order.
+ *
+ * Each candidate gets credit in [0, 1] by where its value falls between the
+ * lowest and highest numeric value among the candidates: 1 for the best
+ * (lowest for `min`, highest for `max`), 0 for the worst. When every candidate
+ * ties, all get 1. A missing or non-numeric value gets 0.
+ */
+export function directiveCredits(
+  directive: QueryDirective,
+  candidates: ModelAttributes[]
+): number[] {
+  const values = candidates.map((attributes) => {
+    const value = attributes[directive.attribute];
+    return typeof value === 'number' ? value : null;
+  });
+  const numeric = values.filter((v): v is number => v !== null);
+  if (numeric.length === 0) return values.map(() => 0);
+
+  const lo = Math.min(...numeric);
+  const hi = Math.max(...numeric);
+  return values.map((value) => {
+    if (value === null) return 0;
+    if (hi === lo) return 1;
+    return directive.kind === 'max' ? (value - lo) / (hi - lo) : (hi - value) / (hi - lo);
+  });
+}
+
 /**
  * Get a normalized score (0-1) from a match result.
  */
@@ -1,5 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { parseQuery } from './parser.js';
+import { formatQueryNode, parseQuery } from './parser.js';
+import { QueryParseError, QueryParseErrorCode } from './errors.js';
+
+function parseError(query: string, aliases = {}): QueryParseError {
+  try {
+    parseQuery(query, aliases);
+  } catch (err) {
+    if (err instanceof QueryParseError) return err;
+    throw err;
+  }
+  throw new Error(`expected "${query}" to fail`);
+}
 
 describe('parseQuery', () => {
   describe('boolean attributes', () => {
@@ -109,6 +120,119 @@ describe('parseQuery', () => {
     });
   });
 
+  describe('list operators', () => {
+    it('parses contains', () => {
+      expect(parseQuery('tags contains fp8').conditions[0]).toMatchObject({
+        attribute: 'tags',
+        operator: 'contains',
+        value: 'fp8',
+      });
+    });
+
+    it('parses in and not in with list literals', () => {
+      const result = parseQuery('modality in [text, "image"], license NOT  IN [mit]:5, local');
+      expect(result.conditions.map((c) => [c.operator, c.value, c.weight])).toEqual([
+        ['in', ['text', 'image'], 3],
+        ['not in', ['mit'], 5],
+        ['=', true, 1],
+      ]);
+    });
+
+    it('parses typed and quoted list items', () => {
+      expect(parseQuery('bits in [4, 8, "a, b"]').conditions[0]?.value).toEqual([4, 8, 'a, b']);
+      expect(parseQuery('bits in []').conditions[0]?.value).toEqual([]);
+    });
+
+    it('treats a single in value as a one-item list', () => {
+      expect(parseQuery('modality in text').conditions[0]?.value).toEqual(['text']);
+    });
+
+    it('keeps attributes that start with an operator word', () => {
+      expect(parseQuery('local, in_stock').conditions[1]?.attribute).toBe('in_stock');
+    });
+
+    it('renders list conditions back to query syntax', () => {
+      const node = parseQuery('modality in [text, image]').terms[0]!.node;
+      expect(formatQueryNode(node)).toBe('modality in [text, image]');
+    });
+
+    it('rejects misplaced or malformed lists', () => {
+      expect(parseError('tags = [a, b]')).toMatchObject({
+        code: QueryParseErrorCode.INVALID_VALUE,
+        token: '[a, b]',
+      });
+      expect(parseError('tags contains [a]').code).toBe(QueryParseErrorCode.INVALID_VALUE);
+      expect(parseError('tags in [a,, b]').code).toBe(QueryParseErrorCode.INVALID_VALUE);
+      expect(parseError('tags in [a, b')).toMatchObject({
+        code: QueryParseErrorCode.INVALID_VALUE,
+        start: 8,
+        end: 9,
+      });
+    });
+  });
+
+  describe('pattern operators', () => {
+    it('parses glob matches', () => {
+      const [glob, folded] = parseQuery('architecture ~ llama*, name ~* "Qwen?.5*"').conditions;
+      expect(glob).toMatchObject({ attribute: 'architecture', operator: '~', value: 'llama*' });
+      expect(glob?.pattern?.test('llama')).toBe(true);
+      expect(glob?.pattern?.test('codellama')).toBe(false);
+      expect(folded).toMatchObject({ operator: '~*', value: 'Qwen?.5*' });
+      expect(folded?.pattern?.test('qwen2.5-7b')).toBe(true);
+    });
+
+    it('parses regex literals with flags', () => {
+      const result = parseQuery('license =~ /apache|mit/i, local');
+      expect(result.terms).toHaveLength(2);
+      expect(result.conditions[0]).toMatchObject({ operator: '=~', value: 'apache|mit' });
+      expect(result.conditions[0]?.pattern?.flags).toBe('i');
+      expect(parseQuery('name =~ /a\\/b, c/').conditions[0]?.value).toBe('a\\/b, c');
+    });
+
+    it('accepts a bare regex', () => {
+      expect(parseQuery('license =~ ^apache').conditions[0]?.pattern?.source).toBe('^apache');
+    });
+
+    it('renders pattern conditions back to query syntax', () => {
+      const node = parseQuery('license =~ /apache|mit/i').terms[0]!.node;
+      expect(formatQueryNode(node)).toBe('license =~ /apache|mit/i');
+    });
+
+    it('rejects invalid regexes with their span', () => {
+      expect(parseError('local, license =~ /(apache/')).toMatchObject({
+        code: QueryParseErrorCode.INVALID_PATTERN,
+        token: '/(apache/',
+        start: 18,
+        end: 27,
+      });
+      expect(parseError('license =~ /mit/g').code).toBe(QueryParseErrorCode.INVALID_PATTERN);
+      expect(parseError('license =~ /mit/q').code).toBe(QueryParseErrorCode.INVALID_PATTERN);
+      expect(parseError('license =~ /mit').code).toBe(QueryParseErrorCode.INVALID_PATTERN);
+      expect(parseError('license =~ //').code).toBe(QueryParseErrorCode.MISSING_VALUE);
+    });
+  });
+
+  describe('unit suffixes', () => {
+    it('reads unquoted values with a unit as numbers', () => {
+      const result = parseQuery('context_window >= 128k, params < 70B, memory <= 8GB');
+      expect(result.conditions.map((c) => c.value)).toEqual([128_000, 70e9, 8e9]);
+    });
+
+    it('keeps quoted values and contains operands as strings', () => {
+      const result = parseQuery('size = "7b", tags contains 7b');
+      expect(result.conditions.map((c) => c.value)).toEqual(['7b', '7b']);
+      expect(result.conditions.map((c) => c.numericValue)).toEqual([undefined, undefined]);
+    });
+
+    it('keeps the text and the number outside orderings', () => {
+      const result = parseQuery('variant = 7b, params in [7b, "13b", large]');
+      expect(result.conditions.map((c) => [c.value, c.numericValue])).toEqual([
+        ['7b', 7e9],
+        [['7b', '13b', 'large'], [7e9, '13b', 'large']],
+      ]);
+    });
+  });
+
   describe('combined queries', () => {
     it('parses mixed boolean and numeric conditions', () => {
       const result = parseQuery('local, context_window >= 32000, functions');
@@ -168,6 +292,181 @@ describe('parseQuery', () => {
       expect(result.conditions[0]?.attribute).toBe('speed');
       expect(result.conditions[1]?.attribute).toBe('cost');
     });
+
+    it('expands negated aliases into a negated condition', () => {
+      const result = parseQuery('!fast', { fast: 'speed >= 7' });
+      expect(result.conditions[0]).toMatchObject({ attribute: 'speed', negated: true });
+    });
+
+    it('expands aliases inside groups', () => {
+      const result = parseQuery('fast | cheap', { fast: 'speed >= 7', cheap: 'cost <= 3' });
+      expect(result.terms).toHaveLength(1);
+      expect(result.terms[0]?.node.type).toBe('or');
+    });
+
+    it('splices multi-condition aliases into separate terms', () => {
+      const result = parseQuery('budget, local', { budget: 'cost <= 3, speed >= 5' });
+      expect(result.conditions.map((c) => c.weight)).toEqual([3, 2, 1]);
+    });
+  });
+
+  describe('parameterized and nested aliases', () => {
+    const aliases = {
+      'ctx(n)': 'context_window >= $n',
+      'between(attr, lo, hi)': '$attr >= $lo, $attr <= ${hi}',
+      long: 'ctx(128k)',
+      fast: 'speed >= 7',
+      quick: 'fast',
+    };
+
+    it('substitutes arguments into the alias body', () => {
+      expect(parseQuery('ctx(128k)', aliases).conditions[0]).toMatchObject({
+        attribute: 'context_window',
+        operator: '>=',
+        value: 128_000,
+      });
+    });
+
+    it('splices a parameterized alias term with its weights', () => {
+      const result = parseQuery('local, between(cost, 1, 3):9', aliases);
+      expect(result.conditions.map((c) => [c.attribute, c.operator, c.value, c.weight])).toEqual([
+        ['local', '=', true, 3],
+        ['cost', '>=', 1, 9],
+        ['cost', '<=', 3, 9],
+      ]);
+    });
+
+    it('expands calls inside expressions', () => {
+      const result = parseQuery('!ctx(1M) | local', aliases);
+      expect(result.conditions[0]).toMatchObject({ operator: '>=', value: 1_000_000, negated: true });
+    });
+
+    it('expands aliases that use other aliases', () => {
+      expect(parseQuery('long', aliases).conditions[0]).toMatchObject({ value: 128_000 });
+      expect(parseQuery('local | quick', aliases).conditions[1]).toMatchObject({
+        attribute: 'speed',
+        value: 7,
+      });
+    });
+
+    it('rejects the wrong number of arguments', () => {
+      expect(parseError('local, ctx', aliases)).toMatchObject({
+        code: QueryParseErrorCode.INVALID_ALIAS,
+        token: 'ctx',
+      });
+      expect(parseError('ctx(1, 2)', aliases)).toMatchObject({
+        code: QueryParseErrorCode.INVALID_ALIAS,
+        token: 'ctx(1, 2)',
+        message: expect.stringContaining('alias "ctx" takes 1 argument, got 2'),
+      });
+      expect(parseError('fast | ctx(, 2)', aliases).code).toBe(QueryParseErrorCode.INVALID_ALIAS);
+    });
+
+    it('reports alias cycles at the reference', () => {
+      const cyclic = { a: 'local, b', b: 'cheap | a', cheap: 'cost <= 3' };
+      expect(parseError('fast, a', cyclic)).toMatchObject({
+        code: QueryParseErrorCode.ALIAS_CYCLE,
+        token: 'a',
+        start: 6,
+        message: expect.stringContaining('alias cycle a -> b -> a'),
+      });
+      expect(parseError('self', { self: '!self' }).code).toBe(QueryParseErrorCode.ALIAS_CYCLE);
+    });
+
+    it('reports an error inside nested aliases once, with the alias chain', () => {
+      const err = parseError('local, slow', { slow: 'quick', quick: 'fast', fast: 'speed >=' });
+      expect(err).toMatchObject({ code: QueryParseErrorCode.INVALID_ALIAS, token: 'slow' });
+      expect(err.message).toBe(
+        'Invalid query condition: "slow" (alias "slow" -> "quick" -> "fast": ' +
+          'Invalid query condition: "speed >=" (expected a value after ">="))'
+      );
+    });
+  });
+
+  describe('boolean expressions', () => {
+    it('parses an OR group as a single term', () => {
+      const result = parseQuery('(provider = openai | provider = anthropic), functions');
+      expect(result.terms).toHaveLength(2);
+      expect(result.terms[0]).toMatchObject({ weight: 2, node: { type: 'or' } });
+      expect(result.conditions.map((c) => [c.attribute, c.value, c.weight])).toEqual([
+        ['provider', 'openai', 2],
+        ['provider', 'anthropic', 2],
+        ['functions', true, 1],
+      ]);
+    });
+
+    it('parses OR without parentheses at the top level', () => {
+      const result = parseQuery('local | cost <= 1');
+      expect(result.terms[0]?.node.type).toBe('or');
+    });
+
+    it('treats commas inside parentheses as AND', () => {
+      const result = parseQuery('(local, functions) | cost <= 1');
+      const node = result.terms[0]!.node;
+      expect(node.type).toBe('or');
+      expect(node.type === 'or' && node.children[0]?.type).toBe('and');
+    });
+
+    it('folds a negated single condition', () => {
+      const result = parseQuery('!(cost > 5)');
+      expect(result.terms[0]?.node).toEqual({
+        type: 'condition',
+        condition: { attribute: 'cost', operator: '>', value: 5, negated: true, weight: 1 },
+      });
+    });
+
+    it('negates a group', () => {
+      const result = parseQuery('!(local | functions)');
+      expect(result.terms[0]?.node.type).toBe('not');
+    });
+
+    it('applies a weight suffix to a whole group', () => {
+      const result = parseQuery('(local | functions):10, cheap');
+      expect(result.terms.map((t) => t.weight)).toEqual([10, 1]);
+    });
+
+    it('keeps separators inside quoted values', () => {
+      const result = parseQuery('name = "a, b | c"');
+      expect(result.conditions[0]?.value).toBe('a, b | c');
+    });
+  });
+
+  describe('hard constraints', () => {
+    it('marks + terms required with weight 0', () => {
+      const result = parseQuery('+local, fast, cheap');
+      expect(result.terms.map((t) => [t.required, t.weight])).toEqual([
+        [true, 0],
+        [false, 2],
+        [false, 1],
+      ]);
+    });
+
+    it('makes every term of a spliced alias required', () => {
+      const result = parseQuery('+compliant, fast', { compliant: 'local, license != proprietary' });
+      expect(result.terms.map((t) => t.required)).toEqual([true, true, false]);
+    });
+  });
+
+  describe('optimization directives', () => {
+    it('parses min/max directives as weighted soft terms', () => {
+      const result = parseQuery('functions, min(cost), max( quality ):5');
+      expect(result.terms).toHaveLength(1);
+      expect(result.conditions.map((c) => c.weight)).toEqual([3]);
+      expect(result.directives).toEqual([
+        { kind: 'min', attribute: 'cost', weight: 2 },
+        { kind: 'max', attribute: 'quality', weight: 5 },
+      ]);
+    });
+
+    it('expands directive aliases', () => {
+      const result = parseQuery('cheapest', { cheapest: 'min(cost)' });
+      expect(result.directives).toEqual([{ kind: 'min', attribute: 'cost', weight: 1 }]);
+    });
+
+    it('rejects directives as hard constraints or inside groups', () => {
+      expect(() => parseQuery('+min(cost)')).toThrow('Invalid query condition');
+      expect(() => parseQuery('local | max(speed)')).toThrow('Invalid query condition');
+    });
   });
 
   describe('error handling', () => {
@@ -178,5 +477,95 @@ describe('parseQuery', () => {
     it('throws on invalid syntax', () => {
       expect(() => parseQuery('123invalid')).toThrow('Invalid query condition');
     });
+
+    it('throws on unbalanced parentheses', () => {
+      expect(() => parseQuery('(local | functions')).toThrow('Invalid query condition');
+      expect(() => parseQuery('local)')).toThrow('Invalid query condition');
+    });
+
+    it('throws on a dangling OR', () => {
+      expect(() => parseQuery('local |')).toThrow('Invalid query condition');
+    });
+
+    it('throws a typed error pointing into the query', () => {
+      expect(() => parseQuery('local, 123invalid')).toThrow(QueryParseError);
+      expect(parseError('local, 123invalid')).toMatchObject({
+        code: QueryParseErrorCode.EXPECTED_CONDITION,
+        token: '123invalid',
+        start: 7,
+        end: 17,
+      });
+    });
+
+    it('reports the span for each kind of error', () => {
+      expect(parseError('  ')).toMatchObject({
+        code: QueryParseErrorCode.EMPTY_QUERY,
+        start: 0,
+        end: 2,
+      });
+      expect(parseError('local |')).toMatchObject({
+        code: QueryParseErrorCode.EXPECTED_CONDITION,
+        token: '',
+        start: 7,
+        end: 7,
+      });
+      expect(parseError('cost <= , local')).toMatchObject({
+        code: QueryParseErrorCode.MISSING_VALUE,
+        token: '<=',
+        start: 5,
+        end: 7,
+      });
+      expect(parseError('name = "gpt')).toMatchObject({
+        code: QueryParseErrorCode.UNTERMINATED_STRING,
+        token: '"gpt',
+        start: 7,
+        end: 11,
+      });
+      expect(parseError('fast, (local | functions')).toMatchObject({
+        code: QueryParseErrorCode.UNBALANCED_PARENS,
+        token: '(',
+        start: 6,
+        end: 7,
+      });
+      expect(parseError('local)')).toMatchObject({
+        code: QueryParseErrorCode.UNBALANCED_PARENS,
+        token: ')',
+        start: 5,
+        end: 6,
+      });
+      expect(parseError('local extra')).toMatchObject({
+        code: QueryParseErrorCode.UNEXPECTED_TOKEN,
+        token: 'extra',
+        start: 6,
+        end: 11,
+      });
+      expect(parseError('local | max(speed)')).toMatchObject({
+        code: QueryParseErrorCode.MISPLACED_DIRECTIVE,
+        token: 'max(speed)',
+        start: 8,
+        end: 18,
+      });
+      expect(parseError('+min(cost)')).toMatchObject({
+        code: QueryParseErrorCode.MISPLACED_DIRECTIVE,
+        token: '+min(cost)',
+        start: 0,
+        end: 10,
+      });
+    });
+
+    it('reports errors inside an alias body at the alias reference', () => {
+      const aliases = { broken: 'cost <=', cheapest: 'min(cost)' };
+      for (const query of ['local, broken', 'local, !broken', 'local, (broken | fast)']) {
+        const err = parseError(query, aliases);
+        expect(err.code).toBe(QueryParseErrorCode.INVALID_ALIAS);
+        expect(query.slice(err.start, err.end)).toBe('broken');
+        expect(err.message).toContain('alias "broken"');
+      }
+      expect(parseError('+cheapest', aliases)).toMatchObject({
+        code: QueryParseErrorCode.MISPLACED_DIRECTIVE,
+        token: 'cheapest',
+        start: 1,
+      });
+    });
   });
 });
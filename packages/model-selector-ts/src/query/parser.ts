@@ -3,156 +3,803 @@ import {
   ComparisonOperator,
   ParsedQuery,
   QueryCondition,
+  QueryDirective,
+  QueryNode,
+  QueryTerm,
   Aliases,
+  ScalarValue,
 } from '../types.js';
+import { parseHumanNumber, formatHumanNumber } from '../units.js';
+import { AliasDefinition, defineAliases, substituteAliasArgs } from './aliases.js';
+import { QueryParseError, QueryParseErrorCode } from './errors.js';
 
-/**
- * Parse a single query token into a condition.
- *
- * Supported formats:
- * - `attribute` -> attribute = true
- * - `!attribute` -> attribute = false
- * - `attribute = value` -> exact match
- * - `attribute >= 5` -> numeric comparison
- * - `attribute:weight` -> with custom weight (e.g., "local:10")
- */
-function parseToken(token: string, position: number, totalConditions: number): QueryCondition {
-  const trimmed = token.trim();
+const IDENT_RE = /[a-z_][a-z0-9_]*/iy;
+const OPERATOR_RE = /(=~|~\*|~|>=|<=|!=|>|<|=|contains\b|not\s+in\b|in\b)/iy;
+// Operators whose value is a list, e.g. "modality in [text, image]".
+const LIST_OPERATORS: ReadonlySet<ComparisonOperator> = new Set(['in', 'not in']);
+const ORDERING_OPERATORS: ReadonlySet<ComparisonOperator> = new Set(['>', '>=', '<', '<=']);
+// Operators whose value is a glob (`~`, `~*`) or regex (`=~`) pattern.
+const PATTERN_OPERATORS: ReadonlySet<ComparisonOperator> = new Set(['~', '~*', '=~']);
+const REGEX_FLAGS_RE = /[a-z]*/iy;
+const WEIGHT_RE = /:(\d+)/y;
+// A `:N` weight suffix ends an unquoted value (e.g. "cost <= 3:10").
+const WEIGHT_AHEAD_RE = /:\d+\s*(?:,|\||\)|$)/y;
+// An optimization directive term, e.g. "min(cost)".
+const DIRECTIVE_RE = /(min|max)\s*\(\s*([a-z_][a-z0-9_]*)\s*\)/iy;
+// A whole top-level term that is just an alias reference, e.g. "!fast:5" or "ctx(128k)".
+const ALIAS_TERM_RE = /\s*(!?)\s*([a-z_][a-z0-9_]*)\s*(\([^()]*\))?\s*(?::(\d+))?\s*(?=,|$)/iy;
+// The token an error points at: a word, or a single punctuation character.
+const TOKEN_RE = /[^\s,|()]+|\S/y;
 
-  // Check for custom weight suffix (e.g., "local:10")
-  let weight = totalConditions - position; // Default: position-based weight
-  let conditionPart = trimmed;
+// The aliases an error was raised inside of, outermost first, as it passes up
+// through nested alias bodies to the query as written.
+const aliasChains = new WeakMap<QueryParseError, string[]>();
 
-  const weightMatch = trimmed.match(/^(.+):(\d+)$/);
-  if (weightMatch) {
-    conditionPart = weightMatch[1]!.trim();
-    weight = parseInt(weightMatch[2]!, 10);
-  }
-
-  // Check for negation prefix
-  let negated = false;
-  if (conditionPart.startsWith('!')) {
-    negated = true;
-    conditionPart = conditionPart.slice(1).trim();
-  }
+/** A top-level term before position-based weights are assigned. */
+type RawTerm =
+  | { node: QueryNode; weight?: number; required?: boolean }
+  | { directive: Omit<QueryDirective, 'weight'>; weight?: number };
 
-  // Try to parse comparison operators
-  const comparisonMatch = conditionPart.match(
-    /^([a-z_][a-z0-9_]*)\s*(>=|<=|!=|>|<|=)\s*(.+)$/i
-  );
-
-  if (comparisonMatch) {
-    const attribute = comparisonMatch[1]!;
-    const operator = comparisonMatch[2] as ComparisonOperator;
-    const rawValue = comparisonMatch[3]!.trim();
-    const value = parseValue(rawValue);
-
-    return {
-      attribute,
-      operator,
-      value,
-      negated,
-      weight,
-    };
-  }
-
-  // Simple boolean attribute (e.g., "local" or "!local")
-  if (/^[a-z_][a-z0-9_]*$/i.test(conditionPart)) {
-    return {
-      attribute: conditionPart,
-      operator: '=',
-      value: true,
-      negated,
-      weight,
-    };
+/**
+ * Strip matching quotes from a raw value.
+ */
+function unquote(rawValue: string): string {
+  if ((rawValue.startsWith('"') && rawValue.endsWith('"')) ||
+      (rawValue.startsWith("'") && rawValue.endsWith("'"))) {
+    return rawValue.slice(1, -1);
   }
-
-  throw new Error(`Invalid query condition: "${trimmed}"`);
+  return rawValue;
 }
 
 /**
- * Parse a value string into the appropriate type.
+ * Parse a value string into the appropriate type. With `units`, an unquoted
+ * `128k` or `70B` is read as a number; without, it stays a string.
  */
-function parseValue(rawValue: string): AttributeValue {
+function parseValue(rawValue: string, units: boolean): ScalarValue {
   // Boolean
   if (rawValue === 'true') return true;
   if (rawValue === 'false') return false;
 
-  // Number
+  // Number, plain or with a unit suffix such as 128k or 70B
   const num = Number(rawValue);
   if (!isNaN(num)) return num;
+  const human = units ? parseHumanNumber(rawValue) : null;
+  if (human !== null) return human;
 
   // String (remove quotes if present)
-  if ((rawValue.startsWith('"') && rawValue.endsWith('"')) ||
-      (rawValue.startsWith("'") && rawValue.endsWith("'"))) {
-    return rawValue.slice(1, -1);
+  return unquote(rawValue);
+}
+
+/**
+ * Compile the pattern of a `~` / `~*` glob (`*` and `?` wildcards, matching the
+ * whole value; `~*` ignores case) or an `=~` regex (matching anywhere).
+ *
+ * @throws SyntaxError for an invalid regex
+ */
+export function compilePattern(operator: ComparisonOperator, source: string, flags = ''): RegExp {
+  if (operator === '=~') return new RegExp(source, flags);
+  const body = Array.from(source, (ch) => {
+    if (ch === '*') return '.*';
+    if (ch === '?') return '.';
+    return ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  }).join('');
+  return new RegExp(`^${body}$`, operator === '~*' ? 'i' : '');
+}
+
+/**
+ * Split a list literal such as `[text, "image"]` into its items as written, or
+ * null when an item is empty.
+ */
+function splitList(rawValue: string): string[] | null {
+  const inner = rawValue.slice(1, -1);
+  if (inner.trim() === '') return [];
+  const items: string[] = [];
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const ch = inner.charAt(i);
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === ',') {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
   }
+  items.push(inner.slice(start));
+  const trimmed = items.map((item) => item.trim());
+  return trimmed.includes('') ? null : trimmed;
+}
 
-  return rawValue;
+/**
+ * Split the text inside an alias call's parentheses into arguments, or null if
+ * one is empty. `ctx()` has no arguments.
+ */
+function splitArgs(inner: string): string[] | null {
+  if (inner.trim() === '') return [];
+  const args = inner.split(',').map((arg) => arg.trim());
+  return args.includes('') ? null : args;
+}
+
+/**
+ * Negate a node, folding the negation into a single condition where possible
+ * so `!(cost > 5)` is the same condition as `!cost > 5`.
+ */
+function negate(node: QueryNode): QueryNode {
+  if (node.type === 'condition') {
+    return { type: 'condition', condition: { ...node.condition, negated: !node.condition.negated } };
+  }
+  if (node.type === 'not') {
+    return node.child;
+  }
+  return { type: 'not', child: node };
+}
+
+function withWeight(node: QueryNode, weight: number): QueryNode {
+  switch (node.type) {
+    case 'condition':
+      return { type: 'condition', condition: { ...node.condition, weight } };
+    case 'not':
+      return { type: 'not', child: withWeight(node.child, weight) };
+    default:
+      return { type: node.type, children: node.children.map((c) => withWeight(c, weight)) };
+  }
 }
 
 /**
- * Expand aliases in a query string.
+ * Collect the leaf conditions of a node, left to right.
  */
-function expandAliases(query: string, aliases: Aliases): string {
-  let expanded = query;
+export function collectConditions(node: QueryNode): QueryCondition[] {
+  switch (node.type) {
+    case 'condition':
+      return [node.condition];
+    case 'not':
+      return collectConditions(node.child);
+    default:
+      return node.children.flatMap(collectConditions);
+  }
+}
 
-  // Split by comma, expand each token, rejoin
-  const tokens = expanded.split(',').map((t) => t.trim());
-  const expandedTokens = tokens.map((token) => {
-    // Check if this token (without weight suffix) is an alias
-    const weightMatch = token.match(/^(.+):(\d+)$/);
-    const baseToken = weightMatch ? weightMatch[1]!.trim() : token;
-    const weightSuffix = weightMatch ? `:${weightMatch[2]}` : '';
+/**
+ * Render a value as it would be written in a query. With `human`, large
+ * numbers get a unit suffix (`128k`, `70B`).
+ */
+export function formatValue(value: AttributeValue, human = false): string {
+  if (Array.isArray(value)) return `[${value.map((v) => formatValue(v, human)).join(', ')}]`;
+  if (typeof value === 'number' && human) return formatHumanNumber(value);
+  if (typeof value !== 'string') return String(value);
+  return /^[\w.-]+$/.test(value) ? value : JSON.stringify(value);
+}
 
-    // Check for negation
-    const negated = baseToken.startsWith('!');
-    const lookupToken = negated ? baseToken.slice(1) : baseToken;
+/**
+ * Render a node back into query syntax, e.g. for labelling a matched term.
+ * With `human`, numbers are written with unit suffixes.
+ */
+export function formatQueryNode(node: QueryNode, human = false): string {
+  const format = (child: QueryNode): string => formatQueryNode(child, human);
+  switch (node.type) {
+    case 'condition': {
+      const { attribute, operator, value, negated } = node.condition;
+      const prefix = negated ? '!' : '';
+      if (operator === '=' && value === true) return `${prefix}${attribute}`;
+      if (operator === '=~') {
+        return `${prefix}${attribute} =~ /${value}/${node.condition.pattern?.flags ?? ''}`;
+      }
+      return `${prefix}${attribute} ${operator} ${formatValue(value, human)}`;
+    }
+    case 'not':
+      return `!(${format(node.child)})`;
+    case 'or':
+      return node.children.map(format).join(' | ');
+    case 'and':
+      return `(${node.children.map(format).join(', ')})`;
+  }
+}
 
-    if (aliases[lookupToken]) {
-      // Expand the alias
-      let aliasValue = aliases[lookupToken]!;
-      // If negated, we need to handle this specially
-      if (negated) {
-        // For simple boolean aliases, negate them
-        // For comparison aliases, this might not make sense - just prepend !
-        aliasValue = `!(${aliasValue})`;
+/**
+ * Recursive-descent parser for the query DSL.
+ *
+ * Grammar:
+ *   query  := term (',' term)*
+ *   term   := ('+'? or | directive) (':' weight)?
+ *   directive := ('min' | 'max') '(' attribute ')'
+ *   or     := unary ('|' unary)*
+ *   unary  := '!' unary | '(' or (',' or)* ')' | condition
+ *   condition := attribute | attribute op value | alias '(' args ')'
+ *
+ * Commas inside parentheses are AND. Aliases expand where an attribute name
+ * stands alone; an alias that is a whole top-level term splices its own terms
+ * into the query so position-based weights count them individually. Alias
+ * bodies may use other aliases; `expanding` holds the chain being expanded so
+ * a cycle is an error rather than a stack overflow.
+ */
+class QueryParser {
+  private pos = 0;
+
+  constructor(
+    private readonly src: string,
+    private readonly aliases: ReadonlyMap<string, AliasDefinition>,
+    private readonly expanding: readonly string[] = []
+  ) {}
+
+  parseTerms(): RawTerm[] {
+    const terms: RawTerm[] = [];
+    for (;;) {
+      this.skipWs();
+      if (this.atEnd()) break;
+      if (this.peek() === ',') {
+        this.pos++;
+        continue;
+      }
+
+      const start = this.pos;
+      // A `+` prefix marks a hard constraint.
+      const required = this.peek() === '+';
+      if (required) this.pos++;
+
+      const directive = this.tryDirective();
+      const spliced = directive ? null : this.trySpliceAlias(start, required);
+      if (directive) {
+        // Directives rank candidates; they can't be hard constraints.
+        if (required) {
+          this.fail(
+            QueryParseErrorCode.MISPLACED_DIRECTIVE,
+            'a directive cannot be a hard constraint',
+            start,
+            start,
+            this.pos
+          );
+        }
+        terms.push({ directive, weight: this.parseWeight() });
+      } else if (spliced) {
+        terms.push(...spliced);
+      } else {
+        const node = this.parseOr(start);
+        terms.push({ node, weight: this.parseWeight(), required });
+      }
+
+      this.skipWs();
+      if (this.atEnd()) break;
+      if (this.peek() === ')') {
+        this.fail(QueryParseErrorCode.UNBALANCED_PARENS, "unmatched ')'", start, this.pos);
+      }
+      if (this.peek() !== ',') {
+        this.fail(QueryParseErrorCode.UNEXPECTED_TOKEN, 'unexpected input', start, this.pos);
+      }
+      this.pos++;
+    }
+    return terms;
+  }
+
+  /**
+   * Parse the whole source as one expression, ANDing its terms. Used for alias
+   * bodies that appear inside an expression.
+   */
+  parseConjunction(): QueryNode {
+    const children = this.parseTerms().map((term) => {
+      // Directives only make sense as top-level terms.
+      if ('directive' in term) {
+        this.fail(
+          QueryParseErrorCode.MISPLACED_DIRECTIVE,
+          'directives must be top-level terms',
+          0,
+          0,
+          this.src.length
+        );
       }
-      return aliasValue + weightSuffix;
+      return term.node;
+    });
+    if (children.length === 0) {
+      throw new QueryParseError('Empty query', QueryParseErrorCode.EMPTY_QUERY, '', 0, 0);
+    }
+    return children.length === 1 ? children[0]! : { type: 'and', children };
+  }
+
+  private tryDirective(): Omit<QueryDirective, 'weight'> | null {
+    this.skipWs();
+    DIRECTIVE_RE.lastIndex = this.pos;
+    const match = DIRECTIVE_RE.exec(this.src);
+    if (!match) return null;
+    this.pos = DIRECTIVE_RE.lastIndex;
+    return { kind: match[1]!.toLowerCase() as QueryDirective['kind'], attribute: match[2]! };
+  }
+
+  private rejectDirective(termStart: number): void {
+    this.skipWs();
+    DIRECTIVE_RE.lastIndex = this.pos;
+    if (DIRECTIVE_RE.test(this.src)) {
+      this.fail(
+        QueryParseErrorCode.MISPLACED_DIRECTIVE,
+        'directives must be top-level terms',
+        termStart,
+        this.pos,
+        DIRECTIVE_RE.lastIndex
+      );
     }
+  }
 
-    return token;
-  });
+  private trySpliceAlias(termStart: number, required: boolean): RawTerm[] | null {
+    ALIAS_TERM_RE.lastIndex = this.pos;
+    const match = ALIAS_TERM_RE.exec(this.src);
+    if (!match || !this.aliases.has(match[2]!)) return null;
 
-  return expandedTokens.join(', ');
+    const name = match[2]!;
+    const nameStart = this.src.indexOf(name, this.pos);
+    const call = match[3];
+    const end = call ? this.src.indexOf(call, nameStart) + call.length : nameStart + name.length;
+    const args = call === undefined ? [] : splitArgs(call.slice(1, -1));
+    if (!args) this.failEmptyArg(name, termStart, nameStart, end);
+    const weight = match[4] !== undefined ? parseInt(match[4], 10) : undefined;
+    this.pos = ALIAS_TERM_RE.lastIndex;
+
+    if (match[1]) {
+      const node = this.expandAlias(name, args, termStart, nameStart, end);
+      return [{ node: negate(node), weight, required }];
+    }
+    const terms = this.withAlias(name, args, termStart, nameStart, end, (parser) =>
+      parser.parseTerms()
+    );
+    return terms.map((term) => {
+      if (!required) return weight === undefined ? term : { ...term, weight };
+      if ('directive' in term) {
+        this.fail(
+          QueryParseErrorCode.MISPLACED_DIRECTIVE,
+          `alias "${name}" contains a directive, which cannot be a hard constraint`,
+          termStart,
+          nameStart,
+          end
+        );
+      }
+      return { ...term, weight: weight ?? term.weight, required };
+    });
+  }
+
+  private expandAlias(
+    name: string,
+    args: string[],
+    termStart: number,
+    start: number,
+    end: number
+  ): QueryNode {
+    return this.withAlias(name, args, termStart, start, end, (parser) =>
+      parser.parseConjunction()
+    );
+  }
+
+  /**
+   * Run `parse` on an alias body with its arguments substituted, re-reporting
+   * a failure inside the body at the alias reference, since body offsets mean
+   * nothing in the user's query. Inside a nested body the failure passes up
+   * as it is, and is reported once, with the chain of aliases that led to it.
+   */
+  private withAlias<T>(
+    name: string,
+    args: string[],
+    termStart: number,
+    start: number,
+    end: number,
+    parse: (parser: QueryParser) => T
+  ): T {
+    const definition = this.aliases.get(name)!;
+    if (this.expanding.includes(name)) {
+      const chain = [...this.expanding, name].join(' -> ');
+      this.fail(QueryParseErrorCode.ALIAS_CYCLE, `alias cycle ${chain}`, termStart, start, end);
+    }
+    if (args.length !== definition.params.length) {
+      const expected = definition.params.length;
+      this.fail(
+        QueryParseErrorCode.INVALID_ALIAS,
+        `alias "${name}" takes ${expected} argument${expected === 1 ? '' : 's'}, ` +
+          `got ${args.length}`,
+        termStart,
+        start,
+        end
+      );
+    }
+    const body = substituteAliasArgs(definition, args);
+    try {
+      return parse(new QueryParser(body, this.aliases, [...this.expanding, name]));
+    } catch (err) {
+      if (!(err instanceof QueryParseError)) throw err;
+      if (!aliasChains.has(err)) aliasChains.set(err, [...this.expanding, name]);
+      if (this.expanding.length > 0) throw err;
+      const chain = aliasChains.get(err)!.map((alias) => `"${alias}"`).join(' -> ');
+      this.fail(
+        // A cycle stays a cycle however deep it was found.
+        err.code === QueryParseErrorCode.ALIAS_CYCLE
+          ? QueryParseErrorCode.ALIAS_CYCLE
+          : QueryParseErrorCode.INVALID_ALIAS,
+        `alias ${chain}: ${err.message}`,
+        termStart,
+        start,
+        end
+      );
+    }
+  }
+
+  /**
+   * Read the argument list of an alias call, with `pos` on its '('.
+   */
+  private readAliasArgs(name: string, termStart: number, nameStart: number): string[] {
+    const open = this.pos;
+    const close = this.src.indexOf(')', open);
+    if (close === -1) {
+      this.fail(QueryParseErrorCode.UNBALANCED_PARENS, "unclosed '('", termStart, open, open + 1);
+    }
+    this.pos = close + 1;
+    const args = splitArgs(this.src.slice(open + 1, close));
+    if (!args) this.failEmptyArg(name, termStart, nameStart, this.pos);
+    return args;
+  }
+
+  private failEmptyArg(name: string, termStart: number, start: number, end: number): never {
+    return this.fail(
+      QueryParseErrorCode.INVALID_ALIAS,
+      `empty argument to alias "${name}"`,
+      termStart,
+      start,
+      end
+    );
+  }
+
+  private parseWeight(): number | undefined {
+    this.skipWs();
+    WEIGHT_RE.lastIndex = this.pos;
+    const match = WEIGHT_RE.exec(this.src);
+    if (!match) return undefined;
+    this.pos = WEIGHT_RE.lastIndex;
+    return parseInt(match[1]!, 10);
+  }
+
+  private parseOr(termStart: number): QueryNode {
+    const children = [this.parseUnary(termStart)];
+    for (;;) {
+      this.skipWs();
+      if (this.peek() !== '|') break;
+      this.pos++;
+      children.push(this.parseUnary(termStart));
+    }
+    return children.length === 1 ? children[0]! : { type: 'or', children };
+  }
+
+  private parseUnary(termStart: number): QueryNode {
+    this.skipWs();
+    if (this.peek() === '!') {
+      this.pos++;
+      return negate(this.parseUnary(termStart));
+    }
+    if (this.peek() === '(') {
+      const open = this.pos;
+      this.pos++;
+      const children = [this.parseOr(termStart)];
+      for (;;) {
+        this.skipWs();
+        if (this.peek() !== ',') break;
+        this.pos++;
+        children.push(this.parseOr(termStart));
+      }
+      this.skipWs();
+      if (this.atEnd()) {
+        this.fail(QueryParseErrorCode.UNBALANCED_PARENS, "unclosed '('", termStart, open, open + 1);
+      }
+      if (this.peek() !== ')') {
+        this.fail(QueryParseErrorCode.UNEXPECTED_TOKEN, 'unexpected input', termStart, this.pos);
+      }
+      this.pos++;
+      return children.length === 1 ? children[0]! : { type: 'and', children };
+    }
+    this.rejectDirective(termStart);
+    return this.parseCondition(termStart);
+  }
+
+  private parseCondition(termStart: number): QueryNode {
+    this.skipWs();
+    const attributeStart = this.pos;
+    IDENT_RE.lastIndex = this.pos;
+    const identMatch = IDENT_RE.exec(this.src);
+    if (!identMatch) {
+      this.fail(QueryParseErrorCode.EXPECTED_CONDITION, 'expected a condition', termStart, this.pos);
+    }
+    const attribute = identMatch[0];
+    this.pos = IDENT_RE.lastIndex;
+
+    this.skipWs();
+    if (this.peek() === '(' && this.aliases.has(attribute)) {
+      const args = this.readAliasArgs(attribute, termStart, attributeStart);
+      return this.expandAlias(attribute, args, termStart, attributeStart, this.pos);
+    }
+    const operatorStart = this.pos;
+    OPERATOR_RE.lastIndex = this.pos;
+    const opMatch = OPERATOR_RE.exec(this.src);
+    if (!opMatch) {
+      // Simple boolean attribute (e.g. "local"), or an alias used in an expression.
+      if (this.aliases.has(attribute)) {
+        const end = attributeStart + attribute.length;
+        return this.expandAlias(attribute, [], termStart, attributeStart, end);
+      }
+      return { type: 'condition', condition: booleanCondition(attribute) };
+    }
+    this.pos = OPERATOR_RE.lastIndex;
+    const operator = opMatch[1]!.toLowerCase().replace(/\s+/, ' ') as ComparisonOperator;
+    const missingValue = (): never =>
+      this.fail(
+        QueryParseErrorCode.MISSING_VALUE,
+        `expected a value after "${opMatch[1]}"`,
+        termStart,
+        operatorStart,
+        operatorStart + opMatch[1]!.length
+      );
+
+    if (PATTERN_OPERATORS.has(operator)) {
+      const condition = this.parsePattern(attribute, operator, termStart);
+      if (!condition.value) missingValue();
+      return { type: 'condition', condition };
+    }
+
+    this.skipWs();
+    const valueStart = this.pos;
+    const rawValue = this.readValue(termStart);
+    if (!rawValue) missingValue();
+    let rawItems: string[] | null;
+    if (rawValue.startsWith('[')) {
+      if (!LIST_OPERATORS.has(operator)) {
+        this.fail(
+          QueryParseErrorCode.INVALID_VALUE,
+          'a list value only works with "in" or "not in"',
+          termStart,
+          valueStart,
+          this.pos
+        );
+      }
+      const items = splitList(rawValue);
+      if (!items) {
+        this.fail(
+          QueryParseErrorCode.INVALID_VALUE,
+          'empty list item',
+          termStart,
+          valueStart,
+          this.pos
+        );
+      }
+      rawItems = items;
+    } else {
+      // `modality in text` is shorthand for a one-item list.
+      rawItems = LIST_OPERATORS.has(operator) ? [rawValue] : null;
+    }
+
+    // Only an ordering reads units outright. Elsewhere `7b` stays a string, and
+    // the number it stands for is kept to compare with numeric attributes;
+    // `contains` compares against list items, which never carry units.
+    const ordering = ORDERING_OPERATORS.has(operator);
+    const condition: QueryCondition = {
+      attribute,
+      operator,
+      value: rawItems
+        ? rawItems.map((item) => parseValue(item, false))
+        : parseValue(rawValue, ordering),
+      negated: false,
+      weight: 0,
+    };
+    const raw = rawItems ?? [rawValue];
+    const hasUnits = raw.some((item) => parseHumanNumber(item) !== null);
+    if (hasUnits && !ordering && operator !== 'contains') {
+      const numeric = raw.map((item) => parseValue(item, true));
+      condition.numericValue = rawItems ? numeric : numeric[0]!;
+    }
+    return { type: 'condition', condition };
+  }
+
+  /**
+   * Read and compile the value of a pattern condition: a glob, or for `=~` a
+   * regex written `/source/flags` (or bare). An invalid regex fails the parse.
+   */
+  private parsePattern(
+    attribute: string,
+    operator: ComparisonOperator,
+    termStart: number
+  ): QueryCondition {
+    this.skipWs();
+    const valueStart = this.pos;
+    let source: string;
+    let flags = '';
+    if (operator === '=~' && this.peek() === '/') {
+      ({ source, flags } = this.readRegexLiteral(termStart));
+    } else {
+      source = unquote(this.readValue(termStart));
+    }
+
+    let pattern: RegExp | undefined;
+    if (/[gy]/.test(flags)) {
+      this.fail(
+        QueryParseErrorCode.INVALID_PATTERN,
+        'the g and y regex flags are not supported',
+        termStart,
+        valueStart,
+        this.pos
+      );
+    }
+    try {
+      pattern = compilePattern(operator, source, flags);
+    } catch (err) {
+      this.fail(
+        QueryParseErrorCode.INVALID_PATTERN,
+        `invalid regex: ${(err as Error).message}`,
+        termStart,
+        valueStart,
+        this.pos
+      );
+    }
+    return { attribute, operator, value: source, negated: false, weight: 0, pattern };
+  }
+
+  /**
+   * Read a `/source/flags` regex literal; `\/` escapes a slash.
+   */
+  private readRegexLiteral(termStart: number): { source: string; flags: string } {
+    const start = this.pos;
+    let i = start + 1;
+    while (i < this.src.length && this.src.charAt(i) !== '/') {
+      i += this.src.charAt(i) === '\\' ? 2 : 1;
+    }
+    if (i >= this.src.length) {
+      this.fail(
+        QueryParseErrorCode.INVALID_PATTERN,
+        'unterminated regex',
+        termStart,
+        start,
+        this.src.length
+      );
+    }
+    REGEX_FLAGS_RE.lastIndex = i + 1;
+    const flags = REGEX_FLAGS_RE.exec(this.src)![0];
+    this.pos = REGEX_FLAGS_RE.lastIndex;
+    return { source: this.src.slice(start + 1, i), flags };
+  }
+
+  /**
+   * Read a raw value: a quoted string, a `[...]` list, or everything up to the
+   * next `,`, `|`, `)` or weight suffix.
+   */
+  private readValue(termStart: number): string {
+    this.skipWs();
+    if (this.peek() === '[') return this.readList(termStart);
+    const quote = this.peek();
+    if (quote === '"' || quote === "'") {
+      const end = this.src.indexOf(quote, this.pos + 1);
+      if (end === -1) {
+        this.fail(
+          QueryParseErrorCode.UNTERMINATED_STRING,
+          'unterminated string',
+          termStart,
+          this.pos,
+          this.src.length
+        );
+      }
+      const raw = this.src.slice(this.pos, end + 1);
+      this.pos = end + 1;
+      return raw;
+    }
+
+    const start = this.pos;
+    while (!this.atEnd()) {
+      const ch = this.peek();
+      if (ch === ',' || ch === '|' || ch === ')') break;
+      if (ch === ':') {
+        WEIGHT_AHEAD_RE.lastIndex = this.pos;
+        if (WEIGHT_AHEAD_RE.test(this.src)) break;
+      }
+      this.pos++;
+    }
+    return this.src.slice(start, this.pos).trim();
+  }
+
+  private readList(termStart: number): string {
+    const start = this.pos;
+    let quote: string | null = null;
+    for (let i = start + 1; i < this.src.length; i++) {
+      const ch = this.src.charAt(i);
+      if (quote) {
+        if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === ']') {
+        this.pos = i + 1;
+        return this.src.slice(start, this.pos);
+      }
+    }
+    this.fail(QueryParseErrorCode.INVALID_VALUE, "unclosed '['", termStart, start, start + 1);
+  }
+
+  private skipWs(): void {
+    while (!this.atEnd() && /\s/.test(this.peek())) this.pos++;
+  }
+
+  private peek(): string {
+    return this.src.charAt(this.pos);
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length;
+  }
+
+  /**
+   * Throw a QueryParseError for the span `start`..`end`; without an `end`, the
+   * span is the token at `start` (empty at the end of the query).
+   */
+  private fail(
+    code: QueryParseErrorCode,
+    detail: string,
+    termStart: number,
+    start: number,
+    end?: number
+  ): never {
+    if (end === undefined) {
+      TOKEN_RE.lastIndex = start;
+      end = TOKEN_RE.test(this.src) ? TOKEN_RE.lastIndex : start;
+    }
+    const term = this.src.slice(termStart).split(',')[0]!.trim();
+    throw new QueryParseError(
+      `Invalid query condition: "${term}" (${detail})`,
+      code,
+      this.src.slice(start, end),
+      start,
+      end
+    );
+  }
+}
+
+function booleanCondition(attribute: string): QueryCondition {
+  return { attribute, operator: '=', value: true, negated: false, weight: 0 };
 }
 
 /**
  * Parse a query string into a structured ParsedQuery.
  *
  * Query syntax:
- * - Comma-separated conditions (AND logic)
+ * - Comma-separated terms (AND logic)
  * - Boolean: `local`, `!local`, `functions`
  * - Comparisons: `cost <= 5`, `speed >= 7`, `context_window >= 32000`
  * - Equality: `provider = openai`
  * - Custom weights: `local:10, fast:5`
+ * - OR and grouping: `(provider = openai | provider = anthropic), !(cost > 5)`;
+ *   commas inside parentheses are AND
+ * - Hard constraints: `+local, +license != proprietary, fast` — models failing
+ *   a `+` term are eliminated instead of ranked lower
+ * - Optimization directives: `functions, min(cost)`, `max(quality)` — rank
+ *   candidates by the attribute relative to each other (see `rankModels`)
  *
- * Position-based weighting: first condition gets highest weight by default.
+ * Position-based weighting: first soft term gets highest weight by default.
+ * Every condition in a grouped term carries the term's weight; hard
+ * constraints have weight 0 and are not counted when assigning positions.
+ *
+ * @throws QueryParseError with the offending span of `query`
  */
 export function parseQuery(query: string, aliases: Aliases = {}): ParsedQuery {
-  // Expand aliases first
-  const expandedQuery = expandAliases(query, aliases);
-
-  // Split by comma
-  const tokens = expandedQuery.split(',').map((t) => t.trim()).filter((t) => t.length > 0);
+  const rawTerms = new QueryParser(query, defineAliases(aliases)).parseTerms();
 
-  if (tokens.length === 0) {
-    throw new Error('Empty query');
+  if (rawTerms.length === 0) {
+    throw new QueryParseError('Empty query', QueryParseErrorCode.EMPTY_QUERY, '', 0, query.length);
   }
 
-  const conditions = tokens.map((token, index) =>
-    parseToken(token, index, tokens.length)
-  );
+  const softCount = rawTerms.filter((term) => !('required' in term && term.required)).length;
+  let softIndex = 0;
+  const terms: QueryTerm[] = [];
+  const directives: QueryDirective[] = [];
+  for (const term of rawTerms) {
+    if ('node' in term && term.required) {
+      terms.push({ node: withWeight(term.node, 0), weight: 0, required: true });
+      continue;
+    }
+    const weight = term.weight ?? softCount - softIndex; // Default: position-based weight
+    softIndex++;
+    if ('directive' in term) {
+      directives.push({ ...term.directive, weight });
+    } else {
+      terms.push({ node: withWeight(term.node, weight), weight, required: false });
+    }
+  }
+  const conditions = terms.flatMap((term) => collectConditions(term.node));
 
-  return { conditions };
+  return { conditions, terms, directives };
 }
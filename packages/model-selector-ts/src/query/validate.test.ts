@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { validateQuery } from './validate.js';
+import { QueryParseError } from './errors.js';
+import type { Config } from '../types.js';
+
+const config: Config = {
+  aliases: { cheap: 'cost <= 3', fast: 'speed >= 7', cheapest: 'min(cost)' },
+  models: {
+    'gpt-4o': {
+      provider: 'openai',
+      enabled: true,
+      attributes: { cost: 6, speed: 7, functions: true, context_window: 128000 },
+    },
+    llama: {
+      enabled: false,
+      attributes: { cost: 1, speed: 5, local: true, license: 'llama3' },
+    },
+  },
+};
+
+describe('validateQuery', () => {
+  it('accepts a query that only uses known attributes', () => {
+    const query = '+local, cheap, fast, provider = openai, max(context_window)';
+    expect(validateQuery(query, config)).toEqual([]);
+  });
+
+  it('flags an unknown attribute with a suggestion', () => {
+    expect(validateQuery('contex_window >= 100000', config)).toEqual([
+      {
+        code: 'unknown_attribute',
+        attribute: 'contex_window',
+        message: 'Unknown attribute "contex_window" (did you mean "context_window"?)',
+        suggestion: 'context_window',
+      },
+    ]);
+  });
+
+  it('suggests alias names for a bare misspelled name', () => {
+    const [warning] = validateQuery('cheep', config);
+    expect(warning).toMatchObject({ code: 'unknown_attribute', suggestion: 'cheap' });
+  });
+
+  it('omits the suggestion when nothing is close', () => {
+    const [warning] = validateQuery('vision', config);
+    expect(warning).toEqual({
+      code: 'unknown_attribute',
+      attribute: 'vision',
+      message: 'Unknown attribute "vision"',
+    });
+  });
+
+  it('flags ordering comparisons on non-numeric attributes', () => {
+    expect(validateQuery('local >= 1, min(license)', config)).toEqual([
+      {
+        code: 'non_numeric_ordering',
+        attribute: 'local',
+        message: '"local" is boolean; ">=" only compares numbers',
+      },
+      {
+        code: 'non_numeric_ordering',
+        attribute: 'license',
+        message: '"license" is string; min() only compares numbers',
+      },
+    ]);
+  });
+
+  it('flags values whose type never occurs for the attribute', () => {
+    expect(validateQuery('cost = cheap, license = 3', config).map((w) => w.message)).toEqual([
+      '"cost" is number, but is compared with string cheap',
+      '"license" is string, but is compared with number 3',
+    ]);
+  });
+
+  it('flags contains on an attribute no model holds a list for', () => {
+    const tagged: Config = {
+      ...config,
+      models: { ...config.models, qwen: { enabled: true, attributes: { tags: ['fp8'] } } },
+    };
+    expect(validateQuery('tags contains fp8, license in [mit, llama3]', tagged)).toEqual([]);
+    expect(validateQuery('license contains mit', tagged)).toEqual([
+      {
+        code: 'type_mismatch',
+        attribute: 'license',
+        message: '"license" is string; "contains" only applies to lists',
+      },
+    ]);
+  });
+
+  it('flags pattern matches on non-string attributes', () => {
+    expect(validateQuery('license ~ llama*, provider =~ /open/', config)).toEqual([]);
+    expect(validateQuery('cost ~ 1*', config)).toMatchObject([
+      { code: 'type_mismatch', message: '"cost" is number; "~" only matches strings' },
+    ]);
+  });
+
+  it('checks attributes referenced through aliases', () => {
+    const aliased = { ...config, aliases: { roomy: 'context >= 32000' } };
+    expect(validateQuery('roomy', aliased)).toMatchObject([
+      { code: 'unknown_attribute', attribute: 'context' },
+    ]);
+  });
+
+  it('treats declared attributes as known', () => {
+    const declared: Config = { ...config, attributes: { vision: { type: 'boolean' } } };
+    expect(validateQuery('vision', declared)).toEqual([]);
+    expect(validateQuery('vision >= 1', declared)).toMatchObject([
+      { code: 'non_numeric_ordering', attribute: 'vision' },
+    ]);
+  });
+
+  it('treats attributes with match defaults as known', () => {
+    const withDefaults: Config = {
+      ...config,
+      defaults: {
+        attributes: { vision: false },
+        providers: { openai: { region: 'us' } },
+      },
+    };
+    expect(validateQuery('vision, region = us', withDefaults)).toEqual([]);
+    expect(validateQuery('region >= 1', withDefaults)).toMatchObject([
+      { code: 'non_numeric_ordering', attribute: 'region' },
+    ]);
+  });
+
+  it('accepts a unit-like value for string and number attributes', () => {
+    const sized: Config = {
+      ...config,
+      models: { phi: { enabled: true, attributes: { variant: '7b', params: 7e9 } } },
+    };
+    expect(validateQuery('variant = 7b, variant in [7b, 70b], params = 7b', sized)).toEqual([]);
+  });
+
+  it('reports a repeated problem once', () => {
+    expect(validateQuery('vison, !vison | local', config)).toHaveLength(1);
+  });
+
+  it('throws on a query that does not parse', () => {
+    expect(() => validateQuery('cost <=', config)).toThrow(QueryParseError);
+  });
+});
@@ -0,0 +1,179 @@
+import { attributeType } from '../config/attributes.js';
+import { effectiveAttributes } from '../config/loader.js';
+import {
+  AttributeDeclaration,
+  Config,
+  ModelAttributes,
+  QueryCondition,
+  QueryWarning,
+} from '../types.js';
+import { defineAliases } from './aliases.js';
+import { formatValue, parseQuery } from './parser.js';
+
+const ORDERING_OPERATORS = new Set(['>', '>=', '<', '<=']);
+
+type ValueType = AttributeDeclaration['type'];
+
+/**
+ * Levenshtein distance between two strings.
+ */
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row.push(Math.min(prev[j]! + 1, row[j - 1]! + 1, prev[j - 1]! + cost));
+    }
+    prev = row;
+  }
+  return prev[b.length]!;
+}
+
+/**
+ * The closest candidate within a third of the name's length, if any.
+ */
+function suggest(name: string, candidates: Iterable<string>): string | undefined {
+  const limit = Math.max(1, Math.floor(name.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance <= limit && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function describeTypes(types: Set<ValueType>): string {
+  return [...types].sort().join(' or ');
+}
+
+function isBooleanForm(condition: QueryCondition): boolean {
+  return condition.operator === '=' && condition.value === true;
+}
+
+/**
+ * Check a query against the attributes the config's models actually have.
+ *
+ * Aliases are expanded first, then every referenced attribute is looked up
+ * in the `[attributes]` declarations, the `[defaults]` values and across all
+ * models (enabled or not, with `provider` folded in as for matching). Unknown
+ * attributes get a "did you mean" suggestion drawn from the known attributes
+ * and, for bare names like `cheep`, the alias names. Returns one warning per
+ * problem, in query order; an empty array means the query can match.
+ *
+ * @throws QueryParseError when the query does not parse
+ */
+export function validateQuery(query: string, config: Config): QueryWarning[] {
+  const parsed = parseQuery(query, config.aliases);
+
+  const known = new Map<string, Set<ValueType>>();
+  for (const [name, declaration] of Object.entries(config.attributes ?? {})) {
+    known.set(name, new Set([declaration.type]));
+  }
+  const addKnown = (attributes: ModelAttributes): void => {
+    for (const [name, value] of Object.entries(attributes)) {
+      const types = known.get(name) ?? new Set<ValueType>();
+      types.add(attributeType(value));
+      known.set(name, types);
+    }
+  };
+  for (const model of Object.values(config.models)) {
+    addKnown(effectiveAttributes(model));
+  }
+  // Match defaults supply attributes no model has yet.
+  addKnown(config.defaults?.attributes ?? {});
+  for (const attributes of Object.values(config.defaults?.providers ?? {})) {
+    addKnown(attributes);
+  }
+
+  const warnings: QueryWarning[] = [];
+  const seen = new Set<string>();
+  const warn = (warning: QueryWarning): void => {
+    const key = `${warning.code}:${warning.attribute}:${warning.message}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    warnings.push(warning);
+  };
+
+  const checkKnown = (attribute: string, aliasLike: boolean): Set<ValueType> | null => {
+    const types = known.get(attribute);
+    if (types) return types;
+    const candidates = aliasLike
+      ? [...known.keys(), ...defineAliases(config.aliases).keys()]
+      : known.keys();
+    const suggestion = suggest(attribute, candidates);
+    warn({
+      code: 'unknown_attribute',
+      attribute,
+      message: suggestion
+        ? `Unknown attribute "${attribute}" (did you mean "${suggestion}"?)`
+        : `Unknown attribute "${attribute}"`,
+      ...(suggestion ? { suggestion } : {}),
+    });
+    return null;
+  };
+
+  const checkOrdering = (attribute: string, types: Set<ValueType>, what: string): boolean => {
+    if (types.has('number')) return true;
+    warn({
+      code: 'non_numeric_ordering',
+      attribute,
+      message: `"${attribute}" is ${describeTypes(types)}; ${what} only compares numbers`,
+    });
+    return false;
+  };
+
+  for (const condition of parsed.conditions) {
+    const { attribute, operator, value } = condition;
+    const types = checkKnown(attribute, isBooleanForm(condition));
+    if (!types) continue;
+    if (ORDERING_OPERATORS.has(operator) && !checkOrdering(attribute, types, `"${operator}"`)) {
+      continue;
+    }
+    if (operator === 'contains') {
+      if (!types.has('list')) {
+        warn({
+          code: 'type_mismatch',
+          attribute,
+          message: `"${attribute}" is ${describeTypes(types)}; "contains" only applies to lists`,
+        });
+      }
+      continue;
+    }
+    if (operator === '~' || operator === '~*' || operator === '=~') {
+      if (!types.has('string') && !types.has('list')) {
+        warn({
+          code: 'type_mismatch',
+          attribute,
+          message: `"${attribute}" is ${describeTypes(types)}; "${operator}" only matches strings`,
+        });
+      }
+      continue;
+    }
+    // `in` / `not in` take a list of candidate values; any type may appear.
+    if (operator === 'in' || operator === 'not in') continue;
+    const valueType = attributeType(value);
+    // `7b` is compared as text or as the number it stands for, by attribute type.
+    if (condition.numericValue !== undefined && types.has('number')) continue;
+    if (!types.has(valueType) || (ORDERING_OPERATORS.has(operator) && valueType !== 'number')) {
+      warn({
+        code: 'type_mismatch',
+        attribute,
+        message:
+          `"${attribute}" is ${describeTypes(types)}, ` +
+          `but is compared with ${valueType} ${formatValue(value)}`,
+      });
+    }
+  }
+
+  for (const directive of parsed.directives) {
+    const types = checkKnown(directive.attribute, false);
+    if (types) checkOrdering(directive.attribute, types, `${directive.kind}()`);
+  }
+
+  return warnings;
+}
@@ -1,8 +1,10 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import * as fs from 'node:fs';
+import * as os from 'node:os';
 import * as path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { rankModels } from './index.js';
+import { stringify as stringifyToml } from 'smol-toml';
+import { ConfigErrorCode, rankModels, selectModel, selectModels } from './index.js';
 import type { Config, ModelConfig } from './types.js';
 
 // Real popular-model registry, ingested from HuggingFace into the shared corpus by
@@ -73,3 +75,141 @@ describe('real models: selection (parity with Python)', () => {
     expect(ranked.indexOf('deepseek-v3')).toBeLessThan(ranked.indexOf('phi-3.5-mini'));
   });
 });
+
+describe('real models: hard constraints', () => {
+  it('drops models failing a + term from the ranking', () => {
+    const ranked = rankModels('+context_window >= 100000, cheap', config).map((r) => r.modelId);
+    expect(new Set(ranked)).toEqual(new Set(['phi-3.5-mini', 'deepseek-v3', 'kimi-k2']));
+    expect(ranked[0]).toBe('phi-3.5-mini');
+  });
+});
+
+describe('real models: optimization directives', () => {
+  it('picks the cheapest model among the candidates', () => {
+    expect(rankModels('min(cost)', config)[0]?.modelId).toBe('phi-3.5-mini');
+  });
+
+  it('picks the fastest long-context model', () => {
+    const ranked = rankModels('+context_window >= 100000, max(speed)', config);
+    expect(ranked.map((r) => r.modelId)).toEqual(['phi-3.5-mini', 'deepseek-v3', 'kimi-k2']);
+    expect(ranked[0]?.score).toBe(1);
+  });
+
+  it('weights directives alongside conditions', () => {
+    // quality >= 9 (weight 2) outweighs being the cheapest (weight 1).
+    const best = rankModels('quality >= 9, min(cost)', config)[0];
+    expect(['deepseek-v3', 'kimi-k2']).toContain(best?.modelId);
+  });
+});
+
+describe('real models: explanation', () => {
+  it('explains every condition of a selection', () => {
+    const best = rankModels('cheap, fast, context_window >= 100000', config)[0]!;
+    expect(best.explanation.map((e) => [e.condition.attribute, e.passed])).toEqual([
+      ['cost', true],
+      ['speed', true],
+      ['context_window', true],
+    ]);
+    expect(best.explanation[2]?.actual).toBe(131072);
+  });
+});
+
+describe('real models: match defaults', () => {
+  // llama-3.1-8b's snapshot has no context_window.
+  const query = 'context_window >= 100000, fast';
+
+  it('fails an unannotated attribute by default', () => {
+    const llama = rankModels(query, config).find((r) => r.modelId === 'llama-3.1-8b')!;
+    expect(llama.explanation[0]?.reason).toBe('missing_attribute');
+  });
+
+  it('applies provider defaults before the config-wide ones', () => {
+    const withDefaults: Config = {
+      ...config,
+      defaults: {
+        attributes: { context_window: 4096 },
+        providers: { meta: { context_window: 131072 } },
+      },
+    };
+    const llama = rankModels(query, withDefaults).find((r) => r.modelId === 'llama-3.1-8b')!;
+    expect(llama.explanation[0]).toMatchObject({ actual: 131072, passed: true });
+  });
+
+  it('takes the unknown policy from the config unless overridden', () => {
+    const neutral: Config = {
+      ...config,
+      defaults: { unknown: 'neutral', attributes: {}, providers: {} },
+    };
+    const find = (options = {}) =>
+      rankModels(query, neutral, options).find((r) => r.modelId === 'llama-3.1-8b')!;
+    expect(find().explanation[0]?.reason).toBe('excluded');
+    expect(find({ unknown: 'fail' }).explanation[0]?.reason).toBe('missing_attribute');
+  });
+});
+
+describe('real models: pattern matching', () => {
+  it('selects a model family by glob', () => {
+    expect([...matchedIds('architecture ~ llama*')].sort()).toEqual([
+      'llama-3.1-70b',
+      'llama-3.1-8b',
+    ]);
+  });
+
+  it('selects permissive licenses by regex', () => {
+    const ranked = rankModels('+license =~ /^(apache|mit)/, max(quality)', config);
+    expect(ranked.map((r) => r.modelId).sort()).toEqual(['mistral-7b', 'mixtral-8x7b', 'phi-3.5-mini', 'qwen2.5-7b']);
+  });
+});
+
+describe('real models: profiles', () => {
+  let tempDir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-selector-profiles-'));
+    vi.stubEnv('HOME', tempDir);
+    vi.stubEnv('MODEL_SELECTOR_CONFIG', '');
+    configPath = path.join(tempDir, 'config.toml');
+    const withProfiles: Config = {
+      ...config,
+      profiles: {
+        summarize: { query: '+context_window >= 100000, max(quality)', count: 2 },
+        huge: { query: '+context_window >= 10000000', fallback: '@summarize' },
+        local_only: { query: 'local', require_match: true, fallback: 'cheap' },
+        loop: { query: '+context_window >= 10000000', fallback: '@loop' },
+      },
+    };
+    fs.writeFileSync(configPath, stringifyToml(withProfiles));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true });
+  });
+
+  it('selects with a profile query and count', () => {
+    expect(selectModels('@summarize', { configPath }).map((s) => s.modelId)).toEqual([
+      'deepseek-v3',
+      'kimi-k2',
+    ]);
+    expect(selectModel('@summarize', { configPath })?.modelId).toBe('deepseek-v3');
+  });
+
+  it('lets explicit options override the profile', () => {
+    expect(selectModels('@summarize', { configPath, count: 3 })).toHaveLength(3);
+  });
+
+  it('falls back when a profile selects nothing', () => {
+    expect(selectModel('@huge', { configPath })?.modelId).toBe('deepseek-v3');
+    const fallback = selectModels('@local_only', { configPath });
+    expect(fallback.length).toBeGreaterThan(0);
+    expect(fallback.every((s) => s.matches)).toBe(true);
+  });
+
+  it('rejects unknown profiles and fallback cycles', () => {
+    expect(() => selectModel('@nope', { configPath })).toThrow(
+      expect.objectContaining({ code: ConfigErrorCode.PROFILE_NOT_FOUND })
+    );
+    expect(() => selectModels('@loop', { configPath })).toThrow('@loop -> @loop');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { ConfigError, ConfigErrorCode } from './config/errors.js';
+import { ModelRegistry } from './registry.js';
+import type { RegistryModel } from './registry.js';
+
+const models: RegistryModel[] = [
+  { id: 'gpt', provider: 'openai', attributes: { cost: 8, speed: 6, functions: true } },
+  { id: 'haiku', provider: 'anthropic', attributes: { cost: 2, speed: 9, functions: true } },
+  { id: 'llama', provider: 'ollama', attributes: { cost: 0, speed: 4, local: true } },
+  { id: 'old', enabled: false, attributes: { cost: 1, speed: 10 } },
+];
+
+const registry = (): ModelRegistry =>
+  ModelRegistry.fromModels(models, { cheap: 'cost <= 3', fast: 'speed >= 7' });
+
+describe('ModelRegistry', () => {
+  it('ranks and selects without a config file', () => {
+    const reg = registry();
+    expect(reg.rank('fast, cheap').map((s) => s.modelId)).toEqual(['haiku', 'llama', 'gpt']);
+    expect(reg.select('functions, cheap')?.modelId).toBe('haiku');
+    expect(reg.select('+provider = google')).toBeNull();
+    expect(reg.selectMany('cheap', { count: 2, requireMatch: true }).map((s) => s.modelId)).toEqual([
+      'haiku',
+      'llama',
+    ]);
+  });
+
+  it('gets, adds and removes models', () => {
+    const reg = registry();
+    expect(reg.get('gpt')?.provider).toBe('openai');
+    expect(reg.get('old')?.enabled).toBe(false);
+    expect(reg.get('missing')).toBeUndefined();
+
+    reg.add({ id: 'flash', provider: 'google', attributes: { cost: 1, speed: 10 } });
+    expect(reg.get('flash')).toMatchObject({ enabled: true, attributes: { cost: 1 } });
+    expect(reg.select('speed >= 10')?.modelId).toBe('flash');
+
+    expect(reg.remove('flash')).toBe(true);
+    expect(reg.remove('flash')).toBe(false);
+    expect(reg.select('speed >= 10', { requireMatch: true })).toBeNull();
+    expect(reg.select('speed >= 10.5', { requireMatch: true, graded: true })).toBeNull();
+  });
+
+  it('ranks a true match above a graded near miss', () => {
+    const reg = ModelRegistry.fromModels([
+      { id: 'edge', attributes: { cost: 5, speed: 5 } },
+      { id: 'match', attributes: { cost: 6, speed: 5 } },
+    ]);
+    const ranked = reg.rank('cost > 5, speed >= 5', { graded: true });
+    expect(ranked.map((s) => s.modelId)).toEqual(['match', 'edge']);
+    expect(ranked[1]!.score).toBeLessThan(ranked[0]!.score);
+  });
+
+  it('rejects duplicate ids and invalid models', () => {
+    const reg = registry();
+    expect(() => reg.add({ id: 'gpt' })).toThrow(
+      expect.objectContaining({ code: ConfigErrorCode.DUPLICATE_MODEL })
+    );
+    expect(() => reg.add({ id: 'bad', enabled: 'yes' as unknown as boolean })).toThrow(ConfigError);
+  });
+
+  it('keeps declarations, defaults and profiles from a config', () => {
+    const reg = ModelRegistry.fromConfig({
+      aliases: {},
+      attributes: { local: { type: 'boolean', default: false } },
+      profiles: { offline: { query: '+local' } },
+      models: {},
+    });
+    reg.add({ id: 'llama', attributes: { local: true } });
+    reg.add({ id: 'gpt', attributes: {} });
+    expect(reg.get('gpt')?.attributes).toEqual({ local: false });
+    expect(reg.select('@offline')?.modelId).toBe('llama');
+    expect(() => reg.add({ id: 'bad', attributes: { local: 'no' } })).toThrow(
+      'attributes.local: expected boolean, got string'
+    );
+  });
+
+  it('returns a config snapshot', () => {
+    const reg = registry();
+    const config = reg.toConfig();
+    reg.remove('gpt');
+    expect(Object.keys(config.models)).toEqual(['gpt', 'haiku', 'llama', 'old']);
+    expect(config.aliases).toEqual({ cheap: 'cost <= 3', fast: 'speed >= 7' });
+  });
+});
@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { CompiledQuery, compileQuery } from './compile.js';
+import {
+  applyAttributeDefaults,
+  checkDeclaredAttributes,
+  parseDeclaredNumbers,
+} from './config/attributes.js';
+import { ConfigError, ConfigErrorCode } from './config/errors.js';
+import { loadConfig } from './config/loader.js';
+import { MatchOptions } from './query/matcher.js';
+import { rankModels, selectFrom } from './select.js';
+import { Aliases, Config, ModelConfig, ModelConfigSchema, Selection, SelectOptions } from './types.js';
+
+/**
+ * A model as handed to `ModelRegistry.fromModels`: the `[models.<id>]` fields
+ * plus the host's own `id`. `enabled` defaults to true and `attributes` to `{}`.
+ */
+export type RegistryModel = z.input<typeof ModelConfigSchema> & { id: string };
+
+/** A model in a registry, with its id. */
+export type RegistryEntry = ModelConfig & { id: string };
+
+/** Options for `ModelRegistry.select` / `selectMany`; there is no file to load. */
+export type RegistrySelectOptions = Omit<SelectOptions, 'configPath'>;
+
+/**
+ * A set of models plus the aliases, profiles and defaults queries run against,
+ * held in memory.
+ *
+ * Build one from models in code (`fromModels`), from a `Config`
+ * (`fromConfig`), or from the TOML files `loadConfig` reads (`load`).
+ * `selectModel` / `selectModels` are `ModelRegistry.load(...).select(...)`.
+ *
+ * @example
+ * ```typescript
+ * const registry = ModelRegistry.fromModels(
+ *   [{ id: 'gpt', provider: 'openai', attributes: { cost: 8, functions: true } }],
+ *   { cheap: 'cost <= 3' }
+ * );
+ * const sel = registry.select('functions, cheap');
+ * ```
+ */
+export class ModelRegistry {
+  // Replaced, never mutated, on add/remove, so compiled queries for the old
+  // config are not reused.
+  private constructor(private config: Config) {}
+
+  /**
+   * Build a registry from models in code.
+   *
+   * @throws ConfigError when a model is invalid or an id repeats
+   */
+  static fromModels(models: RegistryModel[], aliases: Aliases = {}): ModelRegistry {
+    const registry = new ModelRegistry({ aliases: { ...aliases }, models: {} });
+    for (const model of models) registry.add(model);
+    return registry;
+  }
+
+  /**
+   * Build a registry from a parsed config, keeping its aliases, declarations,
+   * defaults and profiles.
+   */
+  static fromConfig(config: Config): ModelRegistry {
+    return new ModelRegistry({ ...config, models: { ...config.models } });
+  }
+
+  /**
+   * Build a registry from the config files (see `loadConfig`).
+   *
+   * @throws Error when no config file exists or one is invalid
+   */
+  static load(configPath?: string): ModelRegistry {
+    return new ModelRegistry(loadConfig(configPath));
+  }
+
+  /** The model with this id, if any. */
+  get(id: string): ModelConfig | undefined {
+    return Object.hasOwn(this.config.models, id) ? this.config.models[id] : undefined;
+  }
+
+  /** All models, enabled or not, in registry order. */
+  entries(): RegistryEntry[] {
+    return Object.entries(this.config.models).map(([id, model]) => ({ id, ...model }));
+  }
+
+  /**
+   * Add a model. Its attributes are checked against the registry's
+   * `[attributes]` declarations, whose defaults fill in missing values.
+   *
+   * @throws ConfigError when the model is invalid or its id is taken
+   */
+  add(model: RegistryModel): this {
+    const { id, ...fields } = model;
+    if (this.get(id)) {
+      throw new ConfigError(`Model "${id}" already exists.`, ConfigErrorCode.DUPLICATE_MODEL);
+    }
+    const result = ModelConfigSchema.safeParse(fields);
+    const declarations = this.config.attributes ?? {};
+    const attributes = result.success
+      ? parseDeclaredNumbers(result.data.attributes, declarations)
+      : {};
+    const errors = result.success
+      ? checkDeclaredAttributes(attributes, declarations).map(
+          (i) => `attributes.${i.attribute}: ${i.message}`
+        )
+      : result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+    if (!result.success || errors.length > 0) {
+      throw new ConfigError(
+        `Invalid model "${id}": ${errors.join(', ')}`,
+        ConfigErrorCode.INVALID_MODEL
+      );
+    }
+    const parsed = { ...result.data, attributes };
+    const filled = applyAttributeDefaults({ ...this.config, models: { [id]: parsed } });
+    this.config = { ...this.config, models: { ...this.config.models, [id]: filled.models[id]! } };
+    return this;
+  }
+
+  /** Remove a model. Returns false when there was none with this id. */
+  remove(id: string): boolean {
+    if (!this.get(id)) return false;
+    const { [id]: _, ...models } = this.config.models;
+    this.config = { ...this.config, models };
+    return true;
+  }
+
+  /** Rank the enabled models against a query; see `rankModels`. */
+  rank(query: string, options: MatchOptions = {}): Selection[] {
+    return rankModels(query, this.config, options);
+  }
+
+  /**
+   * The best matching model, or `null`; see `selectModel`.
+   *
+   * @throws ConfigError when a referenced profile is missing or its fallbacks loop
+   */
+  select(query: string, options: RegistrySelectOptions = {}): Selection | null {
+    return selectFrom(query, this.config, options, true)[0] ?? null;
+  }
+
+  /**
+   * The top models for a query, best first; see `selectModels`.
+   *
+   * @throws ConfigError when a referenced profile is missing or its fallbacks loop
+   */
+  selectMany(query: string, options: RegistrySelectOptions = {}): Selection[] {
+    return selectFrom(query, this.config, options, false);
+  }
+
+  /** Compile a query against the registry as it is now; see `compileQuery`. */
+  compile(query: string): CompiledQuery {
+    return compileQuery(query, this.config);
+  }
+
+  /** A copy of the registry as a `Config`, e.g. for `writeConfig`. */
+  toConfig(): Config {
+    return { ...this.config, models: { ...this.config.models } };
+  }
+}
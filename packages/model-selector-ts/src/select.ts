@@ -0,0 +1,191 @@
+import { getEnabledModels, effectiveAttributes } from './config/loader.js';
+import { ConfigError, ConfigErrorCode } from './config/errors.js';
+import { parseQuery } from './query/parser.js';
+import { directiveCredits, matchModel, MatchOptions, MatchResult } from './query/matcher.js';
+import {
+  Config,
+  ModelAttributes,
+  ModelConfig,
+  ParsedQuery,
+  Profile,
+  Selection,
+  SelectOptions,
+} from './types.js';
+
+/**
+ * Fill in match-time defaults for attributes a model lacks. The most specific
+ * source wins: the model's own values, then `[defaults.providers.<provider>]`,
+ * then `[defaults.attributes]`, then `options.defaults`.
+ */
+function withMatchDefaults(
+  attributes: ModelAttributes,
+  config: Config,
+  options: MatchOptions
+): ModelAttributes {
+  if (!options.defaults && !config.defaults) return attributes;
+  const provider = attributes['provider'];
+  const providerDefaults =
+    typeof provider === 'string' ? config.defaults?.providers[provider] : undefined;
+  return {
+    ...options.defaults,
+    ...config.defaults?.attributes,
+    ...providerDefaults,
+    ...attributes,
+  };
+}
+
+/** An enabled model with the attributes queries are matched against. */
+export interface Candidate {
+  name: string;
+  config: ModelConfig;
+  attributes: ModelAttributes;
+}
+
+/**
+ * The enabled models of a config, with `provider` and the match defaults
+ * folded into their attributes.
+ */
+export function getCandidates(config: Config, options: MatchOptions = {}): Candidate[] {
+  return getEnabledModels(config).map(({ name, config: modelConfig }) => ({
+    name,
+    config: modelConfig,
+    attributes: withMatchDefaults(effectiveAttributes(modelConfig), config, options),
+  }));
+}
+
+/**
+ * Score `candidates` against a parsed query and sort them; the shared core of
+ * `rankModels` and compiled queries. Candidates failing a hard constraint are
+ * dropped, and directives are scored across the rest.
+ */
+export function rankCandidates(
+  candidates: Candidate[],
+  parsedQuery: ParsedQuery,
+  config: Config,
+  options: MatchOptions = {}
+): Selection[] {
+  const matchOptions: MatchOptions = {
+    ...options,
+    unknown: options.unknown ?? config.defaults?.unknown,
+  };
+
+  const eligible: Array<Candidate & { result: MatchResult }> = [];
+  for (const candidate of candidates) {
+    const result = matchModel(candidate.attributes, parsedQuery, matchOptions);
+    if (result.eligible) {
+      eligible.push({ ...candidate, result });
+    }
+  }
+
+  const { directives } = parsedQuery;
+  const credits = directives.map((directive) =>
+    directiveCredits(directive, eligible.map((c) => c.attributes))
+  );
+  const directiveWeight = directives.reduce((sum, d) => sum + d.weight, 0);
+
+  const ranked: Selection[] = eligible.map(({ name, config: modelConfig, result }, i) => {
+    let score = result.score;
+    directives.forEach((directive, d) => {
+      score += directive.weight * credits[d]![i]!;
+    });
+    const maxScore = result.maxScore + directiveWeight;
+    return {
+      modelId: name,
+      config: modelConfig,
+      score: maxScore === 0 ? 0 : score / maxScore,
+      matches: result.matches,
+      exactMatch: result.exactMatch,
+      matchedAttributes: result.matchedAttributes,
+      missingAttributes: result.missingAttributes,
+      explanation: result.conditionScores,
+    };
+  });
+
+  // Stable sort by normalized score, descending.
+  ranked.sort((a, b) => b.score - a.score);
+  return ranked;
+}
+
+/**
+ * Rank enabled models in a config against a query, best (highest normalized
+ * score) first. The sort is stable, so equal scores keep config order. Models
+ * failing a hard (`+`) constraint are left out entirely.
+ *
+ * Optimization directives (`min(cost)`, `max(quality)`) are scored across the
+ * remaining candidates and added to the weighted score, so
+ * `+functions, min(cost)` picks the cheapest model with functions.
+ *
+ * The config's `[defaults]` supply values for attributes a model lacks (see
+ * `withMatchDefaults`) and the unknown policy, unless `options.unknown` is set.
+ *
+ * Returns the host's own model ids wrapped in match metadata — no clients.
+ * For many calls with the same query and config, see `compileQuery`.
+ */
+export function rankModels(
+  query: string,
+  config: Config,
+  options: MatchOptions = {}
+): Selection[] {
+  const parsedQuery = parseQuery(query, config.aliases);
+  return rankCandidates(getCandidates(config, options), parsedQuery, config, options);
+}
+
+/**
+ * The `[profiles.<name>]` entry a `@name` query refers to.
+ *
+ * @throws ConfigError when there is no such profile
+ */
+export function getProfile(name: string, config: Config): Profile {
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    throw new ConfigError(`Profile "${name}" not found.`, ConfigErrorCode.PROFILE_NOT_FOUND);
+  }
+  return profile;
+}
+
+/**
+ * Rank and trim models for `selectModel` (`single`) or `selectModels`.
+ *
+ * A query of the form `@name` runs `[profiles.<name>]`: its query, with its
+ * `count` and `require_match` unless `options` sets them, then its `fallback`
+ * when that selects nothing. `seen` holds the profiles already tried, so a
+ * fallback chain that loops is an error. `rank` does the ranking; compiled
+ * queries pass a cached one.
+ */
+export function selectFrom(
+  query: string,
+  config: Config,
+  options: SelectOptions,
+  single: boolean,
+  rank: typeof rankModels = rankModels,
+  seen: readonly string[] = []
+): Selection[] {
+  const reference = query.trim();
+  if (!reference.startsWith('@')) {
+    const ranked = rank(query, config, options);
+    if (single) {
+      const best = ranked[0];
+      return best && (!options.requireMatch || best.matches) ? [best] : [];
+    }
+    const eligible = options.requireMatch ? ranked.filter((r) => r.matches) : ranked;
+    return eligible.slice(0, options.count ?? eligible.length);
+  }
+
+  const name = reference.slice(1);
+  const profile = getProfile(name, config);
+  if (seen.includes(name)) {
+    const chain = [...seen, name].map((n) => `@${n}`).join(' -> ');
+    throw new ConfigError(`Profile fallback cycle: ${chain}`, ConfigErrorCode.INVALID_PROFILE);
+  }
+  const profileOptions: SelectOptions = {
+    ...options,
+    count: options.count ?? profile.count,
+    requireMatch: options.requireMatch ?? profile.require_match,
+  };
+  const tried = [...seen, name];
+  const selected = selectFrom(profile.query, config, profileOptions, single, rank, tried);
+  if (selected.length > 0 || !profile.fallback) return selected;
+  // A fallback profile brings its own settings; a fallback query keeps this one's.
+  const fallbackOptions = profile.fallback.trim().startsWith('@') ? options : profileOptions;
+  return selectFrom(profile.fallback, config, fallbackOptions, single, rank, tried);
+}
@@ -0,0 +1,19 @@
+import type { ModelRegistry, RegistryEntry, RegistryModel } from '../registry.js';
+
+/**
+ * A persistence backend for a model registry.
+ *
+ * Selection itself never needs a store; these are for hosts that want
+ * model-selector to own their registry's storage. Implement this interface to
+ * keep it in a database or key-value service.
+ */
+export interface MetadataStore {
+  /** Load the full registry. Resolves to an empty registry if nothing is stored. */
+  load(): Promise<ModelRegistry>;
+  /** Persist the full registry, replacing prior contents. */
+  save(registry: ModelRegistry): Promise<void>;
+  /** Insert or replace a single model by id. */
+  upsert(model: RegistryModel): Promise<void>;
+  /** All stored models. */
+  all(): Promise<RegistryEntry[]>;
+}
@@ -0,0 +1,15 @@
+/**
+ * Error class for metadata stores.
+ *
+ * Raised when a store's backing file holds something that isn't a valid
+ * registry, or cannot be read or written.
+ */
+export class StoreError extends Error {
+  constructor(
+    message: string,
+    public readonly path?: string
+  ) {
+    super(message);
+    this.name = 'StoreError';
+  }
+}
@@ -0,0 +1,67 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { ModelRegistry } from '../registry.js';
+import type { RegistryEntry, RegistryModel } from '../registry.js';
+import { ConfigSchema } from '../types.js';
+import type { MetadataStore } from './base.js';
+import { StoreError } from './errors.js';
+
+/**
+ * A store that keeps the registry in one file, in the `[aliases]` /
+ * `[models.<id>]` layout of the config schema. Subclasses pick the format.
+ */
+export abstract class FileMetadataStore implements MetadataStore {
+  constructor(public readonly path: string) {}
+
+  protected abstract parse(content: string): unknown;
+  protected abstract stringify(document: Record<string, unknown>): string;
+
+  async load(): Promise<ModelRegistry> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.path, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return ModelRegistry.fromModels([]);
+      }
+      throw new StoreError(`Failed to read ${this.path}: ${(error as Error).message}`, this.path);
+    }
+
+    let document: unknown;
+    try {
+      document = this.parse(content);
+    } catch (error) {
+      throw new StoreError(`Failed to parse ${this.path}: ${(error as Error).message}`, this.path);
+    }
+    // Unlike a config file, a store may hold no models yet.
+    const result = ConfigSchema.safeParse({ models: {}, ...(document as object) });
+    if (!result.success) {
+      const issues = result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`);
+      throw new StoreError(`Invalid store ${this.path}: ${issues.join(', ')}`, this.path);
+    }
+    return ModelRegistry.fromConfig(result.data);
+  }
+
+  async save(registry: ModelRegistry): Promise<void> {
+    const content = this.stringify(registry.toConfig() as Record<string, unknown>);
+    try {
+      await fs.mkdir(path.dirname(this.path), { recursive: true });
+      // Write atomically: temp file + rename
+      const tempPath = `${this.path}.tmp.${process.pid}`;
+      await fs.writeFile(tempPath, content, { mode: 0o600 });
+      await fs.rename(tempPath, this.path);
+    } catch (error) {
+      throw new StoreError(`Failed to write ${this.path}: ${(error as Error).message}`, this.path);
+    }
+  }
+
+  async upsert(model: RegistryModel): Promise<void> {
+    const registry = await this.load();
+    registry.remove(model.id);
+    await this.save(registry.add(model));
+  }
+
+  async all(): Promise<RegistryEntry[]> {
+    return (await this.load()).entries();
+  }
+}
@@ -0,0 +1,9 @@
+// Metadata store exports
+export type { MetadataStore } from './base.js';
+export { InMemoryStore } from './memory.js';
+export { FileMetadataStore } from './file.js';
+export { JSONMetadataStore } from './json.js';
+export { TomlMetadataStore } from './toml.js';
+
+// Error exports
+export { StoreError } from './errors.js';
@@ -0,0 +1,15 @@
+import { FileMetadataStore } from './file.js';
+
+/**
+ * Persist a registry as a JSON file, e.g. next to a host's other app config.
+ * Implements `MetadataStore`.
+ */
+export class JSONMetadataStore extends FileMetadataStore {
+  protected parse(content: string): unknown {
+    return JSON.parse(content);
+  }
+
+  protected stringify(document: Record<string, unknown>): string {
+    return `${JSON.stringify(document, null, 2)}\n`;
+  }
+}
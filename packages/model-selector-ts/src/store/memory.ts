@@ -0,0 +1,34 @@
+import { ModelRegistry } from '../registry.js';
+import type { RegistryEntry, RegistryModel } from '../registry.js';
+import type { Aliases, Config } from '../types.js';
+import type { MetadataStore } from './base.js';
+
+/**
+ * Holds a registry in memory, for stateful use within a process and for tests.
+ * Implements `MetadataStore`.
+ */
+export class InMemoryStore implements MetadataStore {
+  private config: Config;
+
+  constructor(registry?: ModelRegistry, aliases: Aliases = {}) {
+    this.config = registry ? registry.toConfig() : { aliases: { ...aliases }, models: {} };
+  }
+
+  async load(): Promise<ModelRegistry> {
+    return ModelRegistry.fromConfig(this.config);
+  }
+
+  async save(registry: ModelRegistry): Promise<void> {
+    this.config = registry.toConfig();
+  }
+
+  async upsert(model: RegistryModel): Promise<void> {
+    const registry = ModelRegistry.fromConfig(this.config);
+    registry.remove(model.id);
+    this.config = registry.add(model).toConfig();
+  }
+
+  async all(): Promise<RegistryEntry[]> {
+    return ModelRegistry.fromConfig(this.config).entries();
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parse as parseToml } from 'smol-toml';
+import { ModelRegistry } from '../registry.js';
+import type { RegistryModel } from '../registry.js';
+import { InMemoryStore, JSONMetadataStore, StoreError, TomlMetadataStore } from './index.js';
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+
+const ENTRY: RegistryModel = {
+  id: 'llama',
+  provider: 'ollama',
+  attributes: { cost: 3, local: true, params_total: 8_000_000_000 },
+  provenance: { cost: 'derived', local: 'huggingface' },
+  hf_repo_id: 'meta-llama/Llama-3.1-8B-Instruct',
+};
+
+const expected = { ...ENTRY, enabled: true };
+
+describe('InMemoryStore', () => {
+  it('round-trips models and aliases', async () => {
+    const store = new InMemoryStore(undefined, { cheap: 'cost <= 3' });
+    await store.upsert(ENTRY);
+    const registry = await store.load();
+    expect(registry.entries()).toEqual([expected]);
+    expect(registry.toConfig().aliases).toEqual({ cheap: 'cost <= 3' });
+  });
+
+  it('replaces a model on upsert', async () => {
+    const store = new InMemoryStore();
+    await store.upsert(ENTRY);
+    await store.upsert({ id: 'llama', attributes: { cost: 5 } });
+    const all = await store.all();
+    expect(all).toHaveLength(1);
+    expect(all[0]?.attributes['cost']).toBe(5);
+  });
+
+  it('is not changed by edits to a loaded registry until saved', async () => {
+    const store = new InMemoryStore(ModelRegistry.fromModels([ENTRY]));
+    const registry = await store.load();
+    registry.remove('llama');
+    expect(await store.all()).toHaveLength(1);
+    await store.save(registry);
+    expect(await store.all()).toEqual([]);
+  });
+});
+
+describe('file stores', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'model-selector-store-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true });
+  });
+
+  it('round-trips a registry through JSON', async () => {
+    const store = new JSONMetadataStore(path.join(tempDir, 'nested', 'models.json'));
+    await store.save(ModelRegistry.fromModels([ENTRY], { fast: 'speed >= 7' }));
+    const loaded = await store.load();
+    expect(loaded.entries()).toEqual([expected]);
+    expect(loaded.toConfig().aliases).toEqual({ fast: 'speed >= 7' });
+  });
+
+  it('returns an empty registry for a missing file', async () => {
+    const store = new JSONMetadataStore(path.join(tempDir, 'nope.json'));
+    expect((await store.load()).entries()).toEqual([]);
+  });
+
+  it('upserts into a JSON file', async () => {
+    const store = new JSONMetadataStore(path.join(tempDir, 'm.json'));
+    await store.upsert(ENTRY);
+    await store.upsert({ id: 'gpt5', attributes: { cost: 8 } });
+    expect((await store.all()).map((e) => e.id)).toEqual(['llama', 'gpt5']);
+  });
+
+  it('rejects a file that is not a registry', async () => {
+    const filePath = path.join(tempDir, 'bad.json');
+    await fs.writeFile(filePath, JSON.stringify({ models: { gpt: { enabled: 'yes' } } }));
+    await expect(new JSONMetadataStore(filePath).load()).rejects.toThrow(StoreError);
+    await fs.writeFile(filePath, '{ not json');
+    await expect(new JSONMetadataStore(filePath).load()).rejects.toThrow('Failed to parse');
+  });
+
+  it('round-trips a registry through TOML in the config layout', async () => {
+    const filePath = path.join(tempDir, 'models.toml');
+    const store = new TomlMetadataStore(filePath);
+    await store.save(ModelRegistry.fromModels([ENTRY], { cheap: 'cost <= 3' }));
+    expect((await store.load()).entries()).toEqual([expected]);
+
+    const data = parseToml(await fs.readFile(filePath, 'utf-8')) as Record<string, any>;
+    expect(data['aliases']).toEqual({ cheap: 'cost <= 3' });
+    expect(data['models']['llama']['attributes']['local']).toBe(true);
+  });
+
+  it('loads the shared store example', async () => {
+    const store = new TomlMetadataStore(
+      path.resolve(here, '../../../../shared/schema/store.example.toml')
+    );
+    const registry = await store.load();
+    expect(registry.entries().map((e) => e.id)).toEqual(['gpt5', 'llama']);
+    expect(registry.select('cheap, local')?.modelId).toBe('llama');
+  });
+});
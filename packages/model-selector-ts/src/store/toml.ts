@@ -0,0 +1,16 @@
+import { parse as parseToml, stringify as stringifyToml } from 'smol-toml';
+import { FileMetadataStore } from './file.js';
+
+/**
+ * Persist a registry as TOML mirroring the config schema, so the file also
+ * works as a `model-selector.toml`. Implements `MetadataStore`.
+ */
+export class TomlMetadataStore extends FileMetadataStore {
+  protected parse(content: string): unknown {
+    return parseToml(content);
+  }
+
+  protected stringify(document: Record<string, unknown>): string {
+    return stringifyToml(document);
+  }
+}
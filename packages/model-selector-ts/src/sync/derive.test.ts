@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { deriveAttributes, deriveModel, defaultSpeed, DeriveFn } from './derive.js';
+import type { ModelConfig } from '../types.js';
+
+const DENSE_8B = { params_total: 8_000_000_000, params_active: 8_000_000_000 };
+const DENSE_70B = { params_total: 70_000_000_000, params_active: 70_000_000_000 };
+// Mixtral-style: 8 experts, 2 active -> active params far below total.
+const MOE = { params_total: 46_700_000_000, params_active: 12_900_000_000 };
+
+// Traces: MSEL-DERIVE
+describe('deriveAttributes', () => {
+  it('derives quality, speed and cost within 1-10', () => {
+    const derived = deriveAttributes(DENSE_8B);
+    expect(Object.keys(derived).sort()).toEqual(['cost', 'quality', 'speed']);
+    for (const value of Object.values(derived)) {
+      expect(value).toBeGreaterThanOrEqual(1);
+      expect(value).toBeLessThanOrEqual(10);
+    }
+  });
+
+  it('scores a bigger model higher quality, lower speed, higher cost', () => {
+    const small = deriveAttributes(DENSE_8B);
+    const big = deriveAttributes(DENSE_70B);
+    expect(big['quality']).toBeGreaterThan(small['quality'] as number);
+    expect(big['speed']).toBeLessThan(small['speed'] as number);
+    expect(big['cost']).toBeGreaterThan(small['cost'] as number);
+  });
+
+  it('scores MoE speed on active params', () => {
+    expect(deriveAttributes(MOE)['speed']).toBeGreaterThan(
+      deriveAttributes(DENSE_70B)['speed'] as number
+    );
+  });
+
+  it('derives nothing without param facts', () => {
+    expect(deriveAttributes({ local: true })).toEqual({});
+  });
+
+  it('clamps the default speed curve', () => {
+    expect(defaultSpeed({ params_active: 1 })).toBeLessThanOrEqual(10);
+    expect(defaultSpeed({ params_active: 1e15 })).toBeGreaterThanOrEqual(1);
+  });
+
+  it('swaps a single derive function and keeps the other defaults', () => {
+    const linearQuality: DeriveFn = (facts) =>
+      typeof facts['params_total'] === 'number' ? facts['params_total'] / 1e10 : null;
+    const derived = deriveAttributes(DENSE_8B, { quality: linearQuality });
+    expect(derived['quality']).toBe(0.8);
+    expect(derived['speed']).toBe(deriveAttributes(DENSE_8B)['speed']);
+  });
+
+  it('skips a value the custom function declines', () => {
+    expect(deriveAttributes(DENSE_8B, { cost: () => null })).not.toHaveProperty('cost');
+  });
+});
+
+describe('deriveModel', () => {
+  it('fills missing attributes and tags them derived', () => {
+    const model: ModelConfig = {
+      enabled: true,
+      attributes: { ...DENSE_8B, functions: true },
+      provenance: { params_total: 'huggingface', params_active: 'huggingface' },
+    };
+    const result = deriveModel(model);
+    expect(result.attributes['speed']).toBe(deriveAttributes(DENSE_8B)['speed']);
+    expect(result.provenance?.['speed']).toBe('derived');
+    expect(result.provenance?.['params_total']).toBe('huggingface');
+    expect(result.attributes['functions']).toBe(true);
+  });
+
+  it('never replaces a host-authored value', () => {
+    const model: ModelConfig = { enabled: true, attributes: { ...DENSE_8B, quality: 9 } };
+    const result = deriveModel(model, { quality: () => 1 });
+    expect(result.attributes['quality']).toBe(9);
+    expect(result.provenance?.['quality']).toBeUndefined();
+  });
+
+  it('refreshes values that were previously derived', () => {
+    const model: ModelConfig = {
+      enabled: true,
+      attributes: { ...DENSE_8B, quality: 4 },
+      provenance: { quality: 'derived' },
+    };
+    expect(deriveModel(model, { quality: () => 7 }).attributes['quality']).toBe(7);
+  });
+});
@@ -0,0 +1,153 @@
+import { AttributeValue, DERIVED, ModelAttributes, ModelConfig } from '../types.js';
+
+/**
+ * Maps facts to a derived value, or null when the facts don't support one.
+ */
+export type DeriveFn = (facts: ModelAttributes) => AttributeValue | null;
+
+/**
+ * A swappable set of derivation heuristics, one per derived attribute.
+ */
+export interface DerivationProfile {
+  quality: DeriveFn;
+  speed: DeriveFn;
+  cost: DeriveFn;
+}
+
+const INSTRUCT_HINTS = ['instruct', 'chat', '-it', '_it'];
+
+function clamp(x: number, lo: number, hi: number): number {
+  return Math.max(lo, Math.min(hi, x));
+}
+
+function round1(x: number): number {
+  return Math.round(x * 10) / 10;
+}
+
+function paramsActive(facts: ModelAttributes): number | null {
+  const pa = facts['params_active'] ?? facts['params_total'];
+  return typeof pa === 'number' ? pa : null;
+}
+
+function isInstructionTuned(facts: ModelAttributes): boolean {
+  const repo = String(facts['hf_repo_id'] ?? '').toLowerCase();
+  if (INSTRUCT_HINTS.some((h) => repo.includes(h))) {
+    return true;
+  }
+  const tags = String(facts['tags'] ?? '').toLowerCase();
+  const pipeline = String(facts['pipeline_tag'] ?? '').toLowerCase();
+  return tags.includes('conversational') || (pipeline.includes('text-generation') && tags.includes('chat'));
+}
+
+function recencyBonus(facts: ModelAttributes): number {
+  const created = facts['created_at'];
+  if (typeof created !== 'string' || !created) return 0;
+  const year = parseInt(created.slice(0, 4), 10);
+  if (isNaN(year)) return 0;
+  if (year >= 2025) return 0.5;
+  if (year >= 2024) return 0.3;
+  return 0;
+}
+
+function popularityBonus(facts: ModelAttributes): number {
+  const downloads = facts['downloads'];
+  if (typeof downloads !== 'number') return 0;
+  if (downloads >= 1_000_000) return 0.5;
+  if (downloads >= 100_000) return 0.25;
+  return 0;
+}
+
+/**
+ * Blend params with small bonuses — params alone mis-rank across generations.
+ */
+export function defaultQuality(facts: ModelAttributes): number | null {
+  const pt = facts['params_total'];
+  if (typeof pt !== 'number' || pt <= 0) return null;
+  const base = clamp(2 + 2.5 * Math.log10(pt / 1e9), 1, 10);
+  let bonus = 0;
+  if (isInstructionTuned(facts)) bonus += 0.5;
+  bonus += recencyBonus(facts);
+  bonus += popularityBonus(facts);
+  return round1(clamp(base + bonus, 1, 10));
+}
+
+/**
+ * Inverse of *active* params, so MoE models score fast correctly.
+ */
+export function defaultSpeed(facts: ModelAttributes): number | null {
+  const pa = paramsActive(facts);
+  if (pa === null || pa <= 0) return null;
+  return round1(clamp(11 - 2.5 * Math.log10(pa / 1e9) - 2, 1, 10));
+}
+
+/**
+ * Open weights: tracks active params (your infra). Proprietary: host-supplied.
+ */
+export function defaultCost(facts: ModelAttributes): number | null {
+  const pa = paramsActive(facts);
+  if (pa === null || pa <= 0) return null;
+  return round1(clamp(1 + 2.5 * Math.log10(pa / 1e9), 1, 10));
+}
+
+export const DEFAULT_PROFILE: DerivationProfile = {
+  quality: defaultQuality,
+  speed: defaultSpeed,
+  cost: defaultCost,
+};
+
+/**
+ * Derive crude normalized 1-10 `quality`/`speed`/`cost` from HuggingFace facts;
+ * skip any that come back null.
+ *
+ * HF exposes factual / open-weight data (params, context window, license, tags,
+ * popularity) but nothing for cost / speed / quality, so these are estimated
+ * from the facts. Functions missing from `profile` fall back to
+ * `DEFAULT_PROFILE`, so a host can replace just the curve it disagrees with.
+ *
+ * @example
+ * ```typescript
+ * deriveAttributes(facts, { quality: (f) => myQualityCurve(f['params_total']) });
+ * ```
+ */
+export function deriveAttributes(
+  facts: ModelAttributes,
+  profile: Partial<DerivationProfile> = {}
+): ModelAttributes {
+  const resolved: DerivationProfile = { ...DEFAULT_PROFILE, ...profile };
+  const derived: Record<string, AttributeValue> = {};
+  for (const name of ['quality', 'speed', 'cost'] as const) {
+    const value = resolved[name](facts);
+    if (value !== null) {
+      derived[name] = value;
+    }
+  }
+  return derived;
+}
+
+/**
+ * Derive attributes from the facts already on a model entry.
+ *
+ * Derived values fill in attributes the model lacks and refresh ones that were
+ * themselves derived; host-authored and factual values are left alone. Every
+ * value written here is tagged `derived` in `provenance`.
+ */
+export function deriveModel(
+  model: ModelConfig,
+  profile: Partial<DerivationProfile> = {}
+): ModelConfig {
+  const facts = model.hf_repo_id
+    ? { ...model.attributes, hf_repo_id: model.hf_repo_id }
+    : model.attributes;
+  const derived = deriveAttributes(facts, profile);
+
+  const attributes = { ...model.attributes };
+  const provenance = { ...model.provenance };
+  for (const [key, value] of Object.entries(derived)) {
+    if (key in attributes && provenance[key] !== DERIVED) {
+      continue;
+    }
+    attributes[key] = value;
+    provenance[key] = DERIVED;
+  }
+  return { ...model, attributes, provenance };
+}
@@ -0,0 +1,14 @@
+/**
+ * Error class for HuggingFace metadata sync.
+ *
+ * Raised when the Hub cannot be reached or returns an error for a repo.
+ */
+export class SyncError extends Error {
+  constructor(
+    message: string,
+    public readonly repoId?: string
+  ) {
+    super(message);
+    this.name = 'SyncError';
+  }
+}
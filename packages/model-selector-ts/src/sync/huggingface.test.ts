@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { mapHfToFacts, HfRawMetadata } from './huggingface.js';
+
+const LLAMA_RAW: HfRawMetadata = {
+  id: 'meta-llama/Llama-3.1-8B-Instruct',
+  downloads: 2_000_000,
+  likes: 3000,
+  created_at: '2024-07-23T00:00:00+00:00',
+  gated: 'manual',
+  tags: ['text-generation', 'conversational'],
+  pipeline_tag: 'text-generation',
+  card_data: { license: 'llama3.1' },
+  config: { model_type: 'llama', max_position_embeddings: 131072 },
+  safetensors: { total: 8_030_000_000 },
+};
+
+const MIXTRAL_RAW: HfRawMetadata = {
+  id: 'mistralai/Mixtral-8x7B-Instruct-v0.1',
+  downloads: 500_000,
+  gated: false,
+  tags: ['text-generation'],
+  pipeline_tag: 'text-generation',
+  card_data: { license: 'apache-2.0' },
+  config: {
+    model_type: 'mixtral',
+    max_position_embeddings: 32768,
+    num_local_experts: 8,
+    num_experts_per_tok: 2,
+  },
+  safetensors: { total: 46_700_000_000 },
+};
+
+// Traces: MSEL-HF-FACTS
+describe('mapHfToFacts', () => {
+  it('maps dense model facts', () => {
+    const facts = mapHfToFacts(LLAMA_RAW);
+    expect(facts['params_total']).toBe(8_030_000_000);
+    expect(facts['params_active']).toBe(8_030_000_000);
+    expect(facts['architecture']).toBe('llama');
+    expect(facts['context_window']).toBe(131072);
+    expect(facts['license']).toBe('llama3.1');
+    expect(facts['gated']).toBe(true);
+    expect(facts['local']).toBe(true);
+    expect(facts['downloads']).toBe(2_000_000);
+    expect(facts['tags']).toBe('text-generation,conversational');
+  });
+
+  it('puts MoE active params below total', () => {
+    const facts = mapHfToFacts(MIXTRAL_RAW);
+    expect(facts['params_active']).toBe(Math.trunc((46_700_000_000 * 2) / 8));
+    expect(facts['params_active']).toBeLessThan(facts['params_total'] as number);
+  });
+
+  it('counts shared experts as always active', () => {
+    const facts = mapHfToFacts({
+      config: { n_routed_experts: 256, n_shared_experts: 1, num_experts_per_tok: 8 },
+      safetensors: { total: 1_000_000 },
+    });
+    expect(facts['params_active']).toBe(Math.trunc((1_000_000 * 9) / 257));
+  });
+
+  it('maps gated false', () => {
+    expect(mapHfToFacts(MIXTRAL_RAW)['gated']).toBe(false);
+  });
+
+  it('omits facts the snapshot lacks', () => {
+    const facts = mapHfToFacts({});
+    expect(facts).toEqual({ local: true, gated: false });
+  });
+});
@@ -0,0 +1,189 @@
+import { AttributeValue, ModelAttributes } from '../types.js';
+import { SyncError } from './errors.js';
+
+const HF_ENDPOINT = 'https://huggingface.co';
+
+/**
+ * Normalized raw metadata for a Hub repo, as returned by `fetchHfMetadata`.
+ *
+ * The shape mirrors the frozen snapshots in `shared/corpus/hf_raw/`, so a
+ * captured fixture can be fed straight into `mapHfToFacts`.
+ */
+export interface HfRawMetadata {
+  id?: string;
+  downloads?: number | null;
+  likes?: number | null;
+  created_at?: string | null;
+  gated?: boolean | string | null;
+  tags?: string[];
+  pipeline_tag?: string | null;
+  card_data?: Record<string, unknown>;
+  config?: Record<string, unknown>;
+  safetensors?: { total?: number | null };
+}
+
+/**
+ * Fetches raw metadata for a Hub repo. Injectable so tests can replay snapshots.
+ */
+export type HfFetchFn = (
+  repoId: string,
+  token?: string
+) => Promise<HfRawMetadata> | HfRawMetadata;
+
+/**
+ * Keys HF reliably exposes for open-weight models.
+ */
+export const FACTUAL_FIELDS = [
+  'params_total',
+  'params_active',
+  'architecture',
+  'context_window',
+  'license',
+  'gated',
+  'pipeline_tag',
+  'tags',
+  'downloads',
+  'likes',
+  'created_at',
+  'local',
+] as const;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+async function getJson(url: string, token?: string): Promise<unknown> {
+  const headers: Record<string, string> = {};
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+  const response = await fetch(url, { headers });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Fetch and normalize raw metadata for a Hub repo (network I/O).
+ *
+ * Returns a plain object shaped for `mapHfToFacts`.
+ */
+export async function fetchHfMetadata(repoId: string, token?: string): Promise<HfRawMetadata> {
+  let info: Record<string, unknown>;
+  try {
+    const body = await getJson(`${HF_ENDPOINT}/api/models/${repoId}`, token);
+    info = isRecord(body) ? body : {};
+  } catch (error) {
+    throw new SyncError(
+      `Failed to fetch HF metadata for "${repoId}": ${(error as Error).message}`,
+      repoId
+    );
+  }
+
+  let config = isRecord(info['config']) ? { ...info['config'] } : {};
+  // The summarized model info often omits context window; pull config.json.
+  if (!('max_position_embeddings' in config)) {
+    try {
+      const full = await getJson(`${HF_ENDPOINT}/${repoId}/resolve/main/config.json`, token);
+      if (isRecord(full)) config = { ...full, ...config };
+    } catch {
+      // config.json is best-effort
+    }
+  }
+
+  const safetensors = isRecord(info['safetensors']) ? info['safetensors'] : undefined;
+  const tags = Array.isArray(info['tags']) ? info['tags'].map(String) : [];
+
+  return {
+    id: repoId,
+    downloads: isNumber(info['downloads']) ? info['downloads'] : null,
+    likes: isNumber(info['likes']) ? info['likes'] : null,
+    created_at: typeof info['createdAt'] === 'string' ? info['createdAt'] : null,
+    gated: (info['gated'] as boolean | string | undefined) ?? null,
+    tags,
+    pipeline_tag: typeof info['pipeline_tag'] === 'string' ? info['pipeline_tag'] : null,
+    card_data: isRecord(info['cardData']) ? info['cardData'] : {},
+    config,
+    safetensors: {
+      total: safetensors && isNumber(safetensors['total']) ? safetensors['total'] : null,
+    },
+  };
+}
+
+/**
+ * Approximate active params for MoE models; equal to total for dense models.
+ *
+ * Recognizes both the Mixtral-style `num_local_experts` and the DeepSeek/Kimi
+ * -style `n_routed_experts` naming. Always-active shared experts
+ * (`n_shared_experts`) count toward the active fraction when present.
+ */
+function approxActiveParams(total: number, config: Record<string, unknown>): number {
+  let numExperts = config['num_local_experts'];
+  if (!isNumber(numExperts) || !numExperts) {
+    numExperts = config['n_routed_experts'];
+  }
+  const expertsPerTok = config['num_experts_per_tok'];
+  if (isNumber(numExperts) && numExperts && isNumber(expertsPerTok)) {
+    const sharedRaw = config['n_shared_experts'];
+    const shared = isNumber(sharedRaw) && sharedRaw > 0 ? sharedRaw : 0;
+    const activeFraction = (expertsPerTok + shared) / (numExperts + shared);
+    return Math.trunc(total * activeFraction);
+  }
+  return total;
+}
+
+/**
+ * Map raw HF metadata to our factual attributes (pure).
+ */
+export function mapHfToFacts(raw: HfRawMetadata): ModelAttributes {
+  const facts: Record<string, AttributeValue> = { local: true };
+  const config = raw.config ?? {};
+
+  const total = raw.safetensors?.total;
+  if (isNumber(total)) {
+    facts['params_total'] = Math.trunc(total);
+    facts['params_active'] = approxActiveParams(Math.trunc(total), config);
+  }
+
+  const modelType = config['model_type'];
+  if (modelType) {
+    facts['architecture'] = String(modelType);
+  }
+
+  const ctx = config['max_position_embeddings'];
+  if (isNumber(ctx)) {
+    facts['context_window'] = Math.trunc(ctx);
+  }
+
+  const license = raw.card_data?.['license'];
+  if (license) {
+    facts['license'] = String(license);
+  }
+
+  const gated = raw.gated;
+  facts['gated'] = Boolean(gated) && gated !== 'False' && gated !== 'false';
+
+  if (raw.pipeline_tag) {
+    facts['pipeline_tag'] = String(raw.pipeline_tag);
+  }
+
+  if (raw.tags && raw.tags.length > 0) {
+    facts['tags'] = raw.tags.map(String).join(',');
+  }
+
+  for (const key of ['downloads', 'likes'] as const) {
+    const value = raw[key];
+    if (isNumber(value)) {
+      facts[key] = Math.trunc(value);
+    }
+  }
+
+  if (raw.created_at) {
+    facts['created_at'] = String(raw.created_at);
+  }
+
+  return facts;
+}
@@ -0,0 +1,23 @@
+// Sync pipeline exports
+export { syncModels, enrichModel } from './sync.js';
+export type { SyncOptions } from './sync.js';
+
+// HuggingFace fetch + fact mapping
+export { fetchHfMetadata, mapHfToFacts, FACTUAL_FIELDS } from './huggingface.js';
+export type { HfRawMetadata, HfFetchFn } from './huggingface.js';
+
+// Derivation + merge
+export {
+  deriveAttributes,
+  deriveModel,
+  defaultQuality,
+  defaultSpeed,
+  defaultCost,
+  DEFAULT_PROFILE,
+} from './derive.js';
+export type { DerivationProfile, DeriveFn } from './derive.js';
+export { mergeAttributes, SUBJECTIVE_FIELDS } from './merge.js';
+export type { MergeOptions, AttributeMergeResult } from './merge.js';
+
+// Error exports
+export { SyncError } from './errors.js';
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { mergeAttributes, SUBJECTIVE_FIELDS } from './merge.js';
+
+// Traces: MSEL-MERGE
+describe('mergeAttributes', () => {
+  it('applies user > huggingface > derived precedence', () => {
+    const existing = {
+      attributes: { cost: 5, speed: 3 },
+      provenance: { cost: 'user', speed: 'user' },
+    };
+    const withDerived = mergeAttributes(existing, { speed: 6.7, quality: 4.5, cost: 3.1 }, 'derived');
+    const { attributes, provenance } = mergeAttributes(
+      withDerived,
+      { context_window: 8192, params_total: 8_000_000_000 },
+      'huggingface'
+    );
+
+    expect(attributes['cost']).toBe(5);
+    expect(provenance['cost']).toBe('user');
+    expect(attributes['speed']).toBe(3);
+    expect(provenance['speed']).toBe('user');
+    expect(attributes['quality']).toBe(4.5);
+    expect(provenance['quality']).toBe('derived');
+    expect(attributes['context_window']).toBe(8192);
+    expect(provenance['context_window']).toBe('huggingface');
+  });
+
+  it('lets factual data replace a derived value', () => {
+    const existing = { attributes: { context_window: 4096 }, provenance: { context_window: 'derived' } };
+    const { attributes, provenance } = mergeAttributes(existing, { context_window: 8192 }, 'huggingface');
+    expect(attributes['context_window']).toBe(8192);
+    expect(provenance['context_window']).toBe('huggingface');
+  });
+
+  it('recomputes derived values', () => {
+    const existing = { attributes: { quality: 4 }, provenance: { quality: 'derived' } };
+    expect(mergeAttributes(existing, { quality: 6 }, 'derived').attributes['quality']).toBe(6);
+  });
+
+  it('lets the host replace its own values', () => {
+    const existing = { attributes: { cost: 5 }, provenance: { cost: 'user' } };
+    expect(mergeAttributes(existing, { cost: 2 }, 'user').attributes['cost']).toBe(2);
+  });
+
+  it('preserves factual values on re-sync by default', () => {
+    const existing = { attributes: { context_window: 9999 }, provenance: { context_window: 'huggingface' } };
+    expect(mergeAttributes(existing, { context_window: 8192 }, 'huggingface').attributes['context_window'])
+      .toBe(9999);
+  });
+
+  it('refreshes factual values with overwriteFactual', () => {
+    const existing = { attributes: { context_window: 9999 }, provenance: { context_window: 'huggingface' } };
+    const { attributes } = mergeAttributes(existing, { context_window: 8192 }, 'huggingface', {
+      overwriteFactual: true,
+    });
+    expect(attributes['context_window']).toBe(8192);
+  });
+
+  it('never lets factual data replace a subjective attribute', () => {
+    expect(SUBJECTIVE_FIELDS.has('quality')).toBe(true);
+    const existing = { attributes: { quality: 7 }, provenance: { quality: 'derived' } };
+    const { attributes, provenance } = mergeAttributes(existing, { quality: 2 }, 'huggingface');
+    expect(attributes['quality']).toBe(7);
+    expect(provenance['quality']).toBe('derived');
+  });
+
+  it('treats unknown provenance as host-authored', () => {
+    const { attributes, provenance } = mergeAttributes({ attributes: { foo: 1 } }, { foo: 2 }, 'huggingface');
+    expect(attributes['foo']).toBe(1);
+    expect(provenance['foo']).toBeUndefined();
+  });
+
+  it('drops values a source no longer reports only with dropStale', () => {
+    const existing = {
+      attributes: { context_window: 8192, license: 'mit', speed: 6, moe: true, cost: 2 },
+      provenance: {
+        context_window: 'huggingface',
+        license: 'huggingface',
+        speed: 'derived',
+        moe: 'derived',
+      },
+    };
+    expect(mergeAttributes(existing, {}, 'derived').attributes).toEqual(existing.attributes);
+
+    const withDerived = mergeAttributes(existing, {}, 'derived', { dropStale: true });
+    expect(withDerived.attributes).toEqual({ context_window: 8192, license: 'mit', speed: 6, cost: 2 });
+
+    const { attributes, provenance } = mergeAttributes(withDerived, { context_window: 8192 }, 'huggingface', {
+      dropStale: true,
+    });
+    expect(attributes).toEqual({ context_window: 8192, speed: 6, cost: 2 });
+    expect(provenance).toEqual({ context_window: 'huggingface', speed: 'derived' });
+  });
+
+  it('does not mutate the existing entry', () => {
+    const existing = { attributes: { cost: 1 }, provenance: { cost: 'derived' } };
+    mergeAttributes(existing, { cost: 3, speed: 4 }, 'derived');
+    expect(existing).toEqual({ attributes: { cost: 1 }, provenance: { cost: 'derived' } });
+  });
+});
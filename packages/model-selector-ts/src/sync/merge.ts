@@ -0,0 +1,100 @@
+import {
+  AttributeValue,
+  DERIVED,
+  HUGGINGFACE,
+  ModelAttributes,
+  ModelConfig,
+  Provenance,
+  USER,
+} from '../types.js';
+
+/**
+ * Subjective attributes are derived heuristics or host opinion — never clobbered
+ * by a re-sync of factual HF data.
+ */
+export const SUBJECTIVE_FIELDS: ReadonlySet<string> = new Set([
+  'cost',
+  'speed',
+  'quality',
+  'instruction_following',
+  'reasoning',
+]);
+
+// MSEL-MERGE precedence: user > huggingface > derived.
+const PRECEDENCE: Record<Provenance, number> = {
+  derived: 1,
+  huggingface: 2,
+  user: 3,
+};
+
+export interface MergeOptions {
+  /** Let incoming factual values replace factual values from a previous sync. Default: false */
+  overwriteFactual?: boolean;
+  /**
+   * Treat `incoming` as everything `source` knows: drop values recorded from
+   * it that `incoming` no longer has. Default: false
+   */
+  dropStale?: boolean;
+}
+
+export interface AttributeMergeResult {
+  attributes: ModelAttributes;
+  provenance: Record<string, string>;
+}
+
+function rank(source: string): number {
+  return PRECEDENCE[source as Provenance] ?? PRECEDENCE[USER];
+}
+
+/**
+ * Merge `incoming` attribute values from `source` into an existing model entry.
+ *
+ * Precedence is user > huggingface > derived: an incoming value replaces an
+ * existing one only when its source ranks at least as high. Existing values
+ * with no recorded provenance are treated as host-authored. At equal rank,
+ * user values and derived values are replaced (the host edits its own values;
+ * heuristics are simply recomputed), while factual values are kept across a
+ * re-sync unless `overwriteFactual` is set, and factual data never replaces an
+ * existing subjective attribute (`SUBJECTIVE_FIELDS`).
+ *
+ * With `dropStale`, for a full sync that reports everything it knows, a value
+ * recorded from `huggingface` or `derived` that `incoming` no longer has is
+ * dropped; a subjective derived value is kept until it is derived again.
+ * Otherwise the merge is additive. Provenance is recorded only for the values
+ * the merge writes; existing entries are carried over as they are.
+ *
+ * Pure: returns new attribute + provenance maps and leaves `existing` untouched.
+ */
+export function mergeAttributes(
+  existing: Pick<ModelConfig, 'attributes' | 'provenance'>,
+  incoming: ModelAttributes,
+  source: Provenance,
+  options: MergeOptions = {}
+): AttributeMergeResult {
+  const attributes: Record<string, AttributeValue> = { ...existing.attributes };
+  const provenance: Record<string, string> = { ...existing.provenance };
+
+  if (options.dropStale && source !== USER) {
+    for (const key of Object.keys(attributes)) {
+      const stale = provenance[key] === source && !Object.hasOwn(incoming, key);
+      if (stale && !(source === DERIVED && SUBJECTIVE_FIELDS.has(key))) {
+        delete attributes[key];
+        delete provenance[key];
+      }
+    }
+  }
+
+  for (const [key, value] of Object.entries(incoming)) {
+    if (Object.hasOwn(attributes, key)) {
+      const current = provenance[key] || USER;
+      if (source === HUGGINGFACE && SUBJECTIVE_FIELDS.has(key)) continue;
+      const diff = rank(source) - rank(current);
+      if (diff < 0) continue;
+      if (diff === 0 && source === HUGGINGFACE && !options.overwriteFactual) continue;
+    }
+    attributes[key] = value;
+    provenance[key] = source;
+  }
+
+  return { attributes, provenance };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { enrichModel, syncModels } from './sync.js';
+import type { HfRawMetadata } from './huggingface.js';
+import type { Config, ModelConfig } from '../types.js';
+
+// Replays the frozen hf_raw/ snapshots through the TS pipeline and checks the
+// result against models.json, which shared/corpus/ingest_hf.py produced from the
+// same snapshots with the Python pipeline.
+//
+// Traces: MSEL-SYNC, MSEL-CORPUS
+const here = path.dirname(fileURLToPath(import.meta.url));
+const corpusDir = path.resolve(here, '../../../../shared/corpus');
+
+const modelsDoc = JSON.parse(fs.readFileSync(path.join(corpusDir, 'models.json'), 'utf-8'));
+const expected = modelsDoc.models as Record<string, Required<ModelConfig>>;
+
+const snapshots: Record<string, HfRawMetadata> = {};
+for (const [id, entry] of Object.entries(expected)) {
+  snapshots[entry.hf_repo_id] = JSON.parse(
+    fs.readFileSync(path.join(corpusDir, 'hf_raw', `${id}.json`), 'utf-8')
+  );
+}
+
+const fakeFetch = (repoId: string): HfRawMetadata => {
+  const raw = snapshots[repoId];
+  if (!raw) throw new Error(`no snapshot for ${repoId}`);
+  return raw;
+};
+
+const MIXTRAL_REPO = 'mistralai/Mixtral-8x7B-Instruct-v0.1';
+
+describe('syncModels', () => {
+  it('reproduces shared/corpus/models.json from the frozen snapshots', async () => {
+    const models: Record<string, ModelConfig> = {};
+    for (const [id, entry] of Object.entries(expected)) {
+      models[id] = {
+        provider: entry.provider,
+        hf_repo_id: entry.hf_repo_id,
+        enabled: true,
+        attributes: {},
+      };
+    }
+
+    const synced = await syncModels({ aliases: {}, models }, { fetch: fakeFetch });
+
+    for (const [id, entry] of Object.entries(expected)) {
+      expect(synced.models[id]?.attributes, id).toEqual(entry.attributes);
+      expect(synced.models[id]?.provenance, id).toEqual(entry.provenance);
+    }
+  });
+
+  it('passes models without hf_repo_id through unchanged', async () => {
+    const claude: ModelConfig = { provider: 'anthropic', enabled: true, attributes: { cost: 6 } };
+    const config: Config = { aliases: { cheap: 'cost <= 3' }, models: { claude } };
+    const synced = await syncModels(config, { fetch: fakeFetch });
+    expect(synced.models['claude']).toBe(claude);
+    expect(synced.aliases).toEqual(config.aliases);
+  });
+
+  it('passes the token through to the fetcher', async () => {
+    const seen: Array<string | undefined> = [];
+    await enrichModel(
+      { hf_repo_id: MIXTRAL_REPO, enabled: true, attributes: {} },
+      {
+        hfToken: 'hf_secret',
+        fetch: (repoId, token) => {
+          seen.push(token);
+          return fakeFetch(repoId);
+        },
+      }
+    );
+    expect(seen).toEqual(['hf_secret']);
+  });
+});
+
+describe('enrichModel', () => {
+  it('tags facts huggingface and heuristics derived', async () => {
+    const result = await enrichModel(
+      { hf_repo_id: MIXTRAL_REPO, enabled: true, attributes: {} },
+      { fetch: fakeFetch }
+    );
+    expect(result.attributes['context_window']).toBe(32768);
+    expect(result.provenance?.['context_window']).toBe('huggingface');
+    expect(result.provenance?.['speed']).toBe('derived');
+    expect(result.attributes['quality']).toBeDefined();
+  });
+
+  it('keeps host overrides across a sync', async () => {
+    const result = await enrichModel(
+      {
+        hf_repo_id: MIXTRAL_REPO,
+        enabled: true,
+        attributes: { quality: 9, functions: true },
+        provenance: { quality: 'user' },
+      },
+      { fetch: fakeFetch }
+    );
+    expect(result.attributes['quality']).toBe(9);
+    expect(result.provenance?.['quality']).toBe('user');
+    // No recorded provenance is treated as host-authored, and left untagged.
+    expect(result.attributes['functions']).toBe(true);
+    expect(result.provenance?.['functions']).toBeUndefined();
+  });
+
+  it('keeps factual values on re-sync unless overwriteFactual is set', async () => {
+    const model: ModelConfig = {
+      hf_repo_id: MIXTRAL_REPO,
+      enabled: true,
+      attributes: { context_window: 9999 },
+      provenance: { context_window: 'huggingface' },
+    };
+    const kept = await enrichModel(model, { fetch: fakeFetch });
+    expect(kept.attributes['context_window']).toBe(9999);
+
+    const refreshed = await enrichModel(model, { fetch: fakeFetch, overwriteFactual: true });
+    expect(refreshed.attributes['context_window']).toBe(32768);
+  });
+
+  it('drops synced values upstream no longer reports', async () => {
+    const result = await enrichModel(
+      {
+        hf_repo_id: MIXTRAL_REPO,
+        enabled: true,
+        attributes: { retired: 'yes', speed: 1 },
+        provenance: { retired: 'huggingface', speed: 'derived' },
+      },
+      { fetch: fakeFetch }
+    );
+    expect(result.attributes['retired']).toBeUndefined();
+    expect(result.provenance?.['retired']).toBeUndefined();
+    expect(result.provenance?.['speed']).toBe('derived');
+  });
+});
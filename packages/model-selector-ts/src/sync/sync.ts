@@ -0,0 +1,64 @@
+import { Config, DERIVED, HUGGINGFACE, ModelConfig } from '../types.js';
+import { DerivationProfile, deriveAttributes } from './derive.js';
+import { fetchHfMetadata, HfFetchFn, mapHfToFacts } from './huggingface.js';
+import { mergeAttributes } from './merge.js';
+
+export interface SyncOptions {
+  /** Refresh factual values already recorded from a previous sync. Default: false */
+  overwriteFactual?: boolean;
+  /** HuggingFace access token, passed through to `fetch`. */
+  hfToken?: string;
+  /** Derivation heuristics; unset functions use `DEFAULT_PROFILE`. */
+  profile?: Partial<DerivationProfile>;
+  /** Metadata fetcher. Defaults to `fetchHfMetadata`; inject a fake in tests. */
+  fetch?: HfFetchFn;
+}
+
+/**
+ * Enrich a single model entry from HF facts + derivation.
+ *
+ * Entries without `hf_repo_id` (e.g. proprietary Claude/GPT, which are not on
+ * the Hub) pass through unchanged.
+ */
+export async function enrichModel(
+  model: ModelConfig,
+  options: SyncOptions = {}
+): Promise<ModelConfig> {
+  if (!model.hf_repo_id) {
+    return model;
+  }
+
+  const fetch = options.fetch ?? fetchHfMetadata;
+  const raw = await fetch(model.hf_repo_id, options.hfToken);
+  const facts = mapHfToFacts(raw);
+  // hf_repo_id helps the default heuristics detect instruction-tuned variants.
+  const derived = deriveAttributes({ ...facts, hf_repo_id: model.hf_repo_id }, options.profile);
+  // Facts overlay derived heuristics; host-authored values win over both.
+  // This is the full picture, so values neither source reports any more go.
+  const withDerived = mergeAttributes(model, derived, DERIVED, { dropStale: true });
+  const { attributes, provenance } = mergeAttributes(withDerived, facts, HUGGINGFACE, {
+    overwriteFactual: options.overwriteFactual,
+    dropStale: true,
+  });
+  return { ...model, attributes, provenance };
+}
+
+/**
+ * Enrich every model in a config and return the updated config.
+ *
+ * Models are fetched one at a time, in config order. Persisting the result is
+ * the caller's job (e.g. via `writeConfig`).
+ *
+ * @example
+ * ```typescript
+ * const synced = await syncModels(loadConfig());
+ * await writeConfig(synced);
+ * ```
+ */
+export async function syncModels(config: Config, options: SyncOptions = {}): Promise<Config> {
+  const models: Record<string, ModelConfig> = {};
+  for (const [name, model] of Object.entries(config.models)) {
+    models[name] = await enrichModel(model, options);
+  }
+  return { ...config, models };
+}
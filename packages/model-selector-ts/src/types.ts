@@ -1,16 +1,37 @@
 import { z } from 'zod';
+import {
+  checkAttributeValue,
+  checkDeclaredAttributes,
+  parseDeclaredNumbers,
+} from './config/attributes.js';
+import { aliasDirectiveConflict, parseAliasKey } from './query/aliases.js';
+import { parseHumanNumber } from './units.js';
 
-// Attribute value can be boolean, number, or string
-export type AttributeValue = boolean | number | string;
+// A single attribute value: boolean, number, or string
+export type ScalarValue = boolean | number | string;
+
+// Attribute value: a scalar, or a list of scalars such as `tags = ["fp8", "chat"]`
+export type AttributeValue = ScalarValue | ScalarValue[];
+
+const ScalarValueSchema = z.union([z.boolean(), z.number(), z.string()]);
+
+export const AttributeValueSchema = z.union([ScalarValueSchema, z.array(ScalarValueSchema)]);
 
 // Model attributes schema
-export const ModelAttributesSchema = z.record(
-  z.string(),
-  z.union([z.boolean(), z.number(), z.string()])
-);
+export const ModelAttributesSchema = z.record(z.string(), AttributeValueSchema);
 
 export type ModelAttributes = z.infer<typeof ModelAttributesSchema>;
 
+/**
+ * Where an attribute value came from. Drives merge precedence and keeps
+ * host-authored values, raw HF facts, and derived heuristics distinguishable.
+ */
+export type Provenance = 'user' | 'huggingface' | 'derived';
+
+export const USER: Provenance = 'user';
+export const HUGGINGFACE: Provenance = 'huggingface';
+export const DERIVED: Provenance = 'derived';
+
 /**
  * A model entry in the store/config.
  *
@@ -32,20 +53,156 @@ export const ModelConfigSchema = z.object({
 
 export type ModelConfig = z.infer<typeof ModelConfigSchema>;
 
-// Alias definition: maps a name to a query expression
-export const AliasesSchema = z.record(z.string(), z.string());
+// Alias definition: maps a name to a query expression. A name with parameters,
+// `"ctx(n)" = "context_window >= $n"`, is called as `ctx(128k)`.
+export const AliasesSchema = z.record(z.string(), z.string()).superRefine((aliases, ctx) => {
+  for (const key of Object.keys(aliases)) {
+    const parsed = parseAliasKey(key);
+    const conflict = parsed && aliasDirectiveConflict(parsed);
+    if (!parsed || conflict) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [key],
+        message: conflict ?? 'expected an alias name such as "fast" or "ctx(n)"',
+      });
+    }
+  }
+});
 export type Aliases = z.infer<typeof AliasesSchema>;
 
-// Full config file schema
-export const ConfigSchema = z.object({
-  aliases: AliasesSchema.default({}),
-  models: z.record(z.string(), ModelConfigSchema),
+/**
+ * A declared attribute from the config's `[attributes]` section, e.g.
+ * `cost = { type = "number", range = [1, 10], description = "Relative price" }`.
+ */
+export const AttributeDeclarationSchema = z
+  .object({
+    type: z.enum(['boolean', 'number', 'string', 'list']),
+    /** Inclusive [min, max] bounds for a number attribute. */
+    range: z.tuple([z.number(), z.number()]).optional(),
+    unit: z.string().optional(),
+    description: z.string().optional(),
+    /** Value for models that omit the attribute, applied on load. */
+    default: AttributeValueSchema.optional(),
+  })
+  // A number default may carry a unit suffix, `default = "128k"`.
+  .transform((declaration) => {
+    const { type, default: value } = declaration;
+    const number = type === 'number' && typeof value === 'string' ? parseHumanNumber(value) : null;
+    return number === null ? declaration : { ...declaration, default: number };
+  })
+  .superRefine((declaration, ctx) => {
+    if (declaration.range) {
+      if (declaration.type !== 'number') {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['range'],
+          message: 'range only applies to number attributes',
+        });
+      } else if (declaration.range[0] > declaration.range[1]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['range'],
+          message: 'range minimum exceeds its maximum',
+        });
+      }
+    }
+    if (declaration.default !== undefined) {
+      const issue = checkAttributeValue(declaration.default, declaration);
+      if (issue) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['default'], message: issue });
+    }
+  });
+
+export type AttributeDeclaration = z.infer<typeof AttributeDeclarationSchema>;
+
+export const AttributeDeclarationsSchema = z.record(z.string(), AttributeDeclarationSchema);
+export type AttributeDeclarations = z.infer<typeof AttributeDeclarationsSchema>;
+
+/**
+ * How a condition on an attribute the model doesn't have (and no default
+ * supplies) scores: `fail` it, `pass` it, or leave it `neutral` — excluded
+ * from both the score and the max score.
+ */
+export const UnknownPolicySchema = z.enum(['fail', 'pass', 'neutral']);
+export type UnknownPolicy = z.infer<typeof UnknownPolicySchema>;
+
+/**
+ * The config's `[defaults]` section: attribute values assumed during matching
+ * for models that lack them, overall and per provider, plus the policy for
+ * attributes still missing. Unlike declared defaults, these are never written
+ * into the models.
+ */
+export const MatchDefaultsSchema = z.object({
+  unknown: UnknownPolicySchema.optional(),
+  attributes: ModelAttributesSchema.default({}),
+  providers: z.record(z.string(), ModelAttributesSchema).default({}),
+});
+
+export type MatchDefaults = z.infer<typeof MatchDefaultsSchema>;
+
+/**
+ * A named query with its selection options, `[profiles.<name>]`, used as
+ * `selectModel('@<name>')`. `fallback` is a query or `@profile` tried when this
+ * profile selects nothing.
+ */
+export const ProfileSchema = z.object({
+  query: z.string().min(1),
+  count: z.number().int().positive().optional(),
+  require_match: z.boolean().optional(),
+  fallback: z.string().min(1).optional(),
 });
 
+export type Profile = z.infer<typeof ProfileSchema>;
+
+// Full config file schema. Models must conform to the declared attributes.
+export const ConfigSchema = z
+  .object({
+    aliases: AliasesSchema.default({}),
+    attributes: AttributeDeclarationsSchema.optional(),
+    defaults: MatchDefaultsSchema.optional(),
+    profiles: z.record(z.string(), ProfileSchema).optional(),
+    models: z.record(z.string(), ModelConfigSchema),
+  })
+  // Attributes declared as numbers may be written with a unit suffix, `"128k"`.
+  .transform((config) => {
+    const declarations = config.attributes;
+    if (!declarations) return config;
+    const models: Record<string, ModelConfig> = {};
+    for (const [name, model] of Object.entries(config.models)) {
+      models[name] = { ...model, attributes: parseDeclaredNumbers(model.attributes, declarations) };
+    }
+    return { ...config, models };
+  })
+  .superRefine((config, ctx) => {
+    if (!config.attributes) return;
+    for (const [name, model] of Object.entries(config.models)) {
+      for (const issue of checkDeclaredAttributes(model.attributes, config.attributes)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['models', name, 'attributes', issue.attribute],
+          message: issue.message,
+        });
+      }
+    }
+  });
+
 export type Config = z.infer<typeof ConfigSchema>;
 
-// Parsed query condition
-export type ComparisonOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+// Parsed query condition. `contains` tests a list attribute for a value;
+// `in` / `not in` test an attribute against a list of values. `~` is a glob
+// match (`~*` ignores case) and `=~` a regex match.
+export type ComparisonOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'contains'
+  | 'in'
+  | 'not in'
+  | '~'
+  | '~*'
+  | '=~';
 
 export interface QueryCondition {
   attribute: string;
@@ -53,10 +210,110 @@ export interface QueryCondition {
   value: AttributeValue;
   negated: boolean;
   weight: number; // Position-based weight (higher = more important)
+  /** Compiled pattern of a `~`, `~*` or `=~` condition; `value` holds its source. */
+  pattern?: RegExp;
+  /**
+   * For an unquoted value with a unit suffix outside an ordering, e.g.
+   * `variant = 7b`: the number it stands for, compared with numeric attributes
+   * while `value` keeps the text for string ones.
+   */
+  numericValue?: AttributeValue;
+}
+
+/**
+ * A boolean expression over conditions. `(a | b), !(c, d)` parses to two terms:
+ * an `or` node and a `not` wrapping an `and` node.
+ */
+export type QueryNode =
+  | { type: 'condition'; condition: QueryCondition }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+/**
+ * A top-level comma-separated term, scored as a unit.
+ */
+export interface QueryTerm {
+  node: QueryNode;
+  weight: number;
+  /**
+   * Hard constraint (`+` prefix): a model failing it is eliminated rather than
+   * scored lower. Required terms carry weight 0 and don't count toward score.
+   */
+  required: boolean;
+}
+
+/**
+ * An optimization directive, `min(cost)` or `max(quality)`: ranks candidates by
+ * where the attribute falls between the lowest and highest value among them.
+ */
+export interface QueryDirective {
+  kind: 'min' | 'max';
+  attribute: string;
+  weight: number;
 }
 
 export interface ParsedQuery {
+  /** Every leaf condition in query order, carrying its term's weight. */
   conditions: QueryCondition[];
+  /** Top-level terms; each contributes its weight when its expression holds. */
+  terms: QueryTerm[];
+  /** Optimization directives, scored relative to the other candidates. */
+  directives: QueryDirective[];
+}
+
+/**
+ * Why a condition came out the way it did. A negated condition on a missing
+ * attribute passes, so `missing_attribute` only explains failures. `excluded`
+ * is a missing attribute under the `neutral` unknown policy: neither pass nor
+ * fail, and left out of the score.
+ */
+export type ExplanationReason =
+  | 'passed'
+  | 'missing_attribute'
+  | 'type_mismatch'
+  | 'comparison_false'
+  | 'excluded';
+
+/**
+ * Per-condition outcome. `credit` is 1 for a pass, 0 for a fail, and in
+ * between for a graded near miss.
+ */
+export interface ConditionScore {
+  /** The condition as parsed. */
+  condition: QueryCondition;
+  /** The model's value for the attribute, or undefined when it has none. */
+  actual: AttributeValue | undefined;
+  passed: boolean;
+  reason: ExplanationReason;
+  credit: number;
+  /** The grouped term this condition belongs to, rendered; unset for a standalone condition. */
+  group?: string;
+  /** Hard (`+`) constraint: contributes nothing, but failing it eliminates the model. */
+  required: boolean;
+  /**
+   * Score this condition contributed. A group's contribution is split evenly
+   * across its conditions, so the contributions sum to the match score.
+   */
+  contributed: number;
+}
+
+/**
+ * A problem `validateQuery` found with a query against a config's models:
+ * - `unknown_attribute`: no model has the attribute
+ * - `non_numeric_ordering`: `>`, `>=`, `<`, `<=` or `min`/`max` on an attribute no model holds a number for
+ * - `type_mismatch`: the value's type never occurs for the attribute, e.g. `cost = cheap`
+ *
+ * Each of these fails on every model, since comparisons are type-strict.
+ */
+export type QueryWarningCode = 'unknown_attribute' | 'non_numeric_ordering' | 'type_mismatch';
+
+export interface QueryWarning {
+  code: QueryWarningCode;
+  attribute: string;
+  message: string;
+  /** Closest known attribute or alias name, for an unknown attribute. */
+  suggestion?: string;
 }
 
 /**
@@ -76,6 +333,23 @@ export interface Selection {
   exactMatch: boolean;
   matchedAttributes: string[];
   missingAttributes: string[];
+  /** Every condition's outcome, in query order (see `formatExplanation`). */
+  explanation: ConditionScore[];
+}
+
+/**
+ * Graded numeric scoring: a failed numeric comparison earns partial credit that
+ * falls off linearly with its distance from the threshold.
+ */
+export interface GradedOptions {
+  /**
+   * Relative distance (as a fraction of the threshold's magnitude) at which
+   * credit reaches 0. Default: 0.5, so `speed >= 7` gives speed 6.9 ~0.97 and
+   * speed 3.5 nothing.
+   */
+  falloff?: number;
+  /** Per-attribute overrides of `falloff`, e.g. `{ context_window: 0.25 }`. */
+  attributeFalloff?: Record<string, number>;
 }
 
 // Options for selection
@@ -84,4 +358,8 @@ export interface SelectOptions {
   configPath?: string;
   /** When true, only return models with at least one matched condition. */
   requireMatch?: boolean;
+  /** Give near-miss numeric conditions partial credit. Default: false */
+  graded?: boolean | GradedOptions;
+  /** Scoring for attributes a model lacks. Default: the config's `[defaults]`, else `fail` */
+  unknown?: UnknownPolicy;
 }
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { formatHumanNumber, parseHumanNumber } from './units.js';
+
+describe('parseHumanNumber', () => {
+  it('expands decimal unit suffixes', () => {
+    expect(parseHumanNumber('128k')).toBe(128_000);
+    expect(parseHumanNumber('1M')).toBe(1_000_000);
+    expect(parseHumanNumber('70B')).toBe(70e9);
+    expect(parseHumanNumber('8GB')).toBe(8e9);
+    expect(parseHumanNumber('1.5 M')).toBe(1_500_000);
+    expect(parseHumanNumber('1.1k')).toBe(1100);
+  });
+
+  it('rejects plain numbers and other text', () => {
+    expect(parseHumanNumber('128')).toBeNull();
+    expect(parseHumanNumber('k')).toBeNull();
+    expect(parseHumanNumber('128kk')).toBeNull();
+    expect(parseHumanNumber('llama-70b')).toBeNull();
+  });
+});
+
+describe('formatHumanNumber', () => {
+  it('uses the largest suffix that fits', () => {
+    expect(formatHumanNumber(128_000)).toBe('128k');
+    expect(formatHumanNumber(131_072)).toBe('131.1k');
+    expect(formatHumanNumber(2_000_000)).toBe('2M');
+    expect(formatHumanNumber(70e9)).toBe('70B');
+  });
+
+  it('leaves small numbers alone', () => {
+    expect(formatHumanNumber(8)).toBe('8');
+    expect(formatHumanNumber(0.5)).toBe('0.5');
+  });
+});
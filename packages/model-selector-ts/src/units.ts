@@ -0,0 +1,45 @@
+// Decimal multipliers for human-readable numbers. `B` alone is billions
+// (`70B` parameters); after another suffix it is bytes (`8GB`).
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  m: 1e6,
+  b: 1e9,
+  g: 1e9,
+  t: 1e12,
+};
+
+const HUMAN_NUMBER_RE = /^(-?\d+(?:\.\d+)?)\s?([kmgt]b?|b)$/i;
+
+// Largest first, for formatting.
+const HUMAN_SUFFIXES: Array<[number, string]> = [
+  [1e12, 'T'],
+  [1e9, 'B'],
+  [1e6, 'M'],
+  [1e3, 'k'],
+];
+
+/**
+ * Parse a number with a unit suffix — `128k`, `1M`, `70B`, `8GB`, `1.5 M` —
+ * into a plain number. Suffixes are decimal and case-insensitive. Returns null
+ * for anything else, including plain numbers.
+ */
+export function parseHumanNumber(text: string): number | null {
+  const match = HUMAN_NUMBER_RE.exec(text.trim());
+  if (!match) return null;
+  const multiplier = MULTIPLIERS[match[2]!.charAt(0).toLowerCase()]!;
+  // toPrecision drops float noise such as 1.1 * 1000 = 1100.0000000000002.
+  return Number((parseFloat(match[1]!) * multiplier).toPrecision(15));
+}
+
+/**
+ * Render a number in human form, e.g. 131072 -> `131.1k`, 70e9 -> `70B`.
+ * Numbers below 1000 are left as they are.
+ */
+export function formatHumanNumber(n: number): string {
+  for (const [size, suffix] of HUMAN_SUFFIXES) {
+    if (Math.abs(n) >= size) {
+      return `${Number((n / size).toFixed(1))}${suffix}`;
+    }
+  }
+  return String(n);
+}